@@ -0,0 +1,106 @@
+// AudioWorklet that captures the microphone off the main thread.
+// Input is downmixed to mono, low-pass filtered and decimated to 16kHz, then posted
+// to the owning node's port in fixed-size frames. Each frame also carries the untouched
+// device-rate mono samples captured since the previous one, for archiving.
+
+import { AudioRingBuffer } from './lib/ringBuffer';
+
+// The AudioWorkletGlobalScope is not part of TypeScript's DOM lib
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor();
+}
+
+// Must match CAPTURE_PROCESSOR_NAME in useTranscribe; not exported so the main bundle never imports this file
+const CAPTURE_PROCESSOR_NAME = 'capture-processor';
+const TARGET_SAMPLE_RATE = 16000;
+// 100ms per message keeps postMessage traffic low without adding noticeable latency
+const FRAME_SIZE = TARGET_SAMPLE_RATE / 10;
+
+class CaptureProcessor extends AudioWorkletProcessor {
+    private readonly ratio = sampleRate / TARGET_SAMPLE_RATE;
+    private readonly halfWindow = Math.max(0.5, this.ratio / 2);
+
+    // Recent native-rate input; a few render quanta is all the resampler ever looks back
+    private readonly input = new AudioRingBuffer(4096);
+    private mono = new Float32Array(128);
+    // Absolute (fractional) input position of the next output sample's centre
+    private position = 0;
+
+    private frame = new Float32Array(FRAME_SIZE);
+    private frameLength = 0;
+    private raw = new Float32Array(Math.ceil(FRAME_SIZE * this.ratio) + 256);
+    private rawLength = 0;
+    private active = true;
+
+    constructor() {
+        super();
+        this.port.onmessage = (event: MessageEvent) => {
+            if (event.data?.type === 'stop') {
+                // Hand over the partial frame so the tail of the recording is not lost
+                this.postFrame();
+                this.port.postMessage({ type: 'stopped' });
+                this.active = false;
+            }
+        };
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+        const channels = inputs[0];
+        if (!channels || channels.length === 0) return this.active;
+
+        this.appendMono(channels);
+        this.resample();
+
+        return this.active;
+    }
+
+    private appendMono(channels: Float32Array[]) {
+        const length = channels[0].length;
+        if (this.mono.length < length) this.mono = new Float32Array(length);
+
+        for (let i = 0; i < length; i++) {
+            let sum = 0;
+            for (let c = 0; c < channels.length; c++) sum += channels[c][i];
+            this.mono[i] = sum / channels.length;
+        }
+        this.input.write(this.mono.subarray(0, length));
+
+        if (this.rawLength + length > this.raw.length) {
+            const grown = new Float32Array((this.rawLength + length) * 2);
+            grown.set(this.raw.subarray(0, this.rawLength));
+            this.raw = grown;
+        }
+        this.raw.set(this.mono.subarray(0, length), this.rawLength);
+        this.rawLength += length;
+    }
+
+    // Box-filter decimation: each output sample is the mean of the input samples it covers,
+    // which is a cheap anti-aliasing low-pass for the 44.1/48kHz -> 16kHz ratios we see
+    private resample() {
+        while (this.position + this.halfWindow < this.input.end) {
+            const from = Math.max(this.input.start, Math.ceil(this.position - this.halfWindow));
+            const to = Math.min(this.input.end - 1, Math.floor(this.position + this.halfWindow));
+
+            let sum = 0;
+            for (let i = from; i <= to; i++) sum += this.input.at(i);
+            this.frame[this.frameLength++] = sum / (to - from + 1);
+
+            if (this.frameLength === FRAME_SIZE) this.postFrame();
+            this.position += this.ratio;
+        }
+    }
+
+    private postFrame() {
+        if (this.frameLength === 0 && this.rawLength === 0) return;
+        const samples = this.frame.slice(0, this.frameLength);
+        const raw = this.raw.slice(0, this.rawLength);
+        this.port.postMessage({ type: 'frame', samples, raw }, [samples.buffer, raw.buffer]);
+        this.frameLength = 0;
+        this.rawLength = 0;
+    }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, CaptureProcessor);
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { ChevronDown, ChevronUp, Terminal, Activity, FileAudio, Cpu } from 'lucide-react';
+import { ChevronDown, ChevronUp, Terminal, Activity, FileAudio, Cpu, AudioLines } from 'lucide-react';
 import { ScrollArea } from '@radix-ui/react-scroll-area';
+import { VadConfig, VadStats } from '@/lib/vad';
 
 interface DebugLog {
     timestamp: number;
@@ -23,9 +24,13 @@ interface DebugPanelProps {
         isLoaded: boolean;
         isTranscribing: boolean;
     };
+    vad?: {
+        config: VadConfig;
+        stats: VadStats | null;
+    };
 }
 
-export function DebugPanel({ logs, audioStats, modelState }: DebugPanelProps) {
+export function DebugPanel({ logs, audioStats, modelState, vad }: DebugPanelProps) {
     const [isOpen, setIsOpen] = useState(false);
 
     return (
@@ -104,6 +109,52 @@ export function DebugPanel({ logs, audioStats, modelState }: DebugPanelProps) {
                         </div>
                     </div>
 
+                    {/* Voice Activity Detection */}
+                    {vad && (
+                        <div className="p-3 rounded-lg bg-white/5 border border-white/10 space-y-2">
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-2 text-cyan-400 font-bold">
+                                    <AudioLines className="w-3 h-3" /> Voice Activity
+                                </div>
+                                {vad.stats && (
+                                    <span className={vad.stats.isSpeaking ? 'text-green-400' : 'text-gray-400'}>
+                                        {vad.stats.isSpeaking ? 'SPEECH' : 'SILENCE'}
+                                    </span>
+                                )}
+                            </div>
+                            {vad.stats && (
+                                <div className="relative h-1.5 rounded-full bg-white/10 overflow-hidden">
+                                    <div
+                                        className="absolute inset-y-0 left-0 bg-cyan-500 transition-all duration-200"
+                                        style={{ width: `${Math.min(100, (vad.stats.rms / (vad.stats.threshold * 4)) * 100)}%` }}
+                                    />
+                                    {/* Threshold marker sits at a quarter of the meter */}
+                                    <div className="absolute inset-y-0 left-1/4 w-px bg-yellow-400" />
+                                </div>
+                            )}
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-1 text-muted-foreground">
+                                <div className="flex justify-between"><span>Energy min:</span> <span>{vad.config.energyThreshold.toFixed(4)}</span></div>
+                                <div className="flex justify-between"><span>Noise ratio:</span> <span>x{vad.config.noiseFloorRatio}</span></div>
+                                <div className="flex justify-between"><span>Max ZCR:</span> <span>{vad.config.maxZeroCrossingRate}</span></div>
+                                <div className="flex justify-between"><span>Pause:</span> <span>{vad.config.minSilenceMs}ms</span></div>
+                                <div className="flex justify-between"><span>Min seg:</span> <span>{(vad.config.minSegmentMs / 1000).toFixed(1)}s</span></div>
+                                <div className="flex justify-between"><span>Max seg:</span> <span>{(vad.config.maxSegmentMs / 1000).toFixed(1)}s</span></div>
+                                <div className="flex justify-between"><span>Min speech:</span> <span>{vad.config.minSpeechMs}ms</span></div>
+                                <div className="flex justify-between"><span>Pre-roll:</span> <span>{vad.config.preRollMs}ms</span></div>
+                                {vad.stats && (
+                                    <>
+                                        <div className="flex justify-between"><span>RMS:</span> <span>{vad.stats.rms.toFixed(4)}</span></div>
+                                        <div className="flex justify-between"><span>ZCR:</span> <span>{vad.stats.zeroCrossingRate.toFixed(3)}</span></div>
+                                        <div className="flex justify-between"><span>Noise floor:</span> <span>{vad.stats.noiseFloor.toFixed(4)}</span></div>
+                                        <div className="flex justify-between"><span>Threshold:</span> <span className="text-yellow-400">{vad.stats.threshold.toFixed(4)}</span></div>
+                                        <div className="flex justify-between"><span>Segments:</span> <span className="text-green-400">{vad.stats.segmentsEmitted}</span></div>
+                                        <div className="flex justify-between"><span>Skipped:</span> <span>{vad.stats.segmentsSkipped}</span></div>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Logs Stream */}
                     <div className="border border-white/10 rounded-lg bg-black/50 h-48 overflow-y-auto p-2 space-y-1">
                         {logs.length === 0 && <div className="text-gray-600 italic">Waiting for events...</div>}
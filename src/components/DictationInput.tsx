@@ -7,11 +7,15 @@ interface DictationInputProps {
   placeholder?: string;
   disabled?: boolean;
   isRecording?: boolean;
+  // Disables only the microphone button, e.g. while uploaded files are being transcribed
+  recordDisabled?: boolean;
+  // Unstable text for speech still in progress; replaced once the segment is committed
+  interimText?: string;
   onRecord?: () => void;
 }
 
 export const DictationInput = forwardRef<HTMLTextAreaElement, DictationInputProps>(
-  ({ value, onChange, placeholder = "Dictate and format text here...", disabled, isRecording, onRecord }, ref) => {
+  ({ value, onChange, placeholder = "Dictate and format text here...", disabled, isRecording, recordDisabled, interimText, onRecord }, ref) => {
     return (
       <div className="relative group">
         <div className="absolute inset-0 rounded-xl bg-gradient-to-br from-primary/20 to-transparent opacity-0 group-focus-within:opacity-100 transition-opacity duration-300 blur-xl -z-10" />
@@ -30,11 +34,19 @@ export const DictationInput = forwardRef<HTMLTextAreaElement, DictationInputProp
             style={{ caretColor: 'hsl(var(--primary))' }}
           />
 
+          {/* Interim hypothesis */}
+          {interimText && (
+            <div className="relative z-10 px-5 md:px-6 pb-14 -mt-2 font-mono text-sm md:text-base leading-relaxed text-muted-foreground/60 italic select-none" aria-live="polite">
+              {interimText}
+              <span className="inline-block w-1.5 h-4 ml-1 align-middle bg-primary/40 animate-pulse" />
+            </div>
+          )}
+
           {/* Microphone indicator */}
           <div className="absolute bottom-4 right-4 z-20">
             <button
               onClick={onRecord}
-              disabled={disabled && !isRecording}
+              disabled={(disabled || recordDisabled) && !isRecording}
               className={`p-2.5 rounded-lg border backdrop-blur-sm transition-all duration-300 cursor-pointer group/mic ${isRecording
                   ? 'bg-red-500/20 border-red-500/50 text-red-500 animate-pulse'
                   : 'bg-navy-700/60 border-border/50 hover:bg-navy-600/60 hover:border-primary/30 text-muted-foreground hover:text-primary'
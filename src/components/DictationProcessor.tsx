@@ -1,39 +1,224 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
 import { DictationInput } from './DictationInput';
 import { ModelStatus } from './ModelStatus';
+import { ModelSelector } from './ModelSelector';
+import { LanguageSelector } from './LanguageSelector';
 import { AudioVisualizer } from './AudioVisualizer';
 import { DebugPanel } from './DebugPanel';
+import { OutputDisplay } from './OutputDisplay';
+import { FileDropzone } from './FileDropzone';
+import { SegmentList } from './SegmentList';
+import { RecordingPlayer, RecordingPlayerHandle } from './RecordingPlayer';
+import { ExportMenu } from './ExportMenu';
+import { SessionBar } from './SessionBar';
+import { SearchCommand } from './SearchCommand';
+import { DraftRecoveryBanner } from './DraftRecoveryBanner';
+import { VoiceCommandSettings } from './VoiceCommandSettings';
+import { PromptSettingsMenu } from './PromptSettingsMenu';
 import { useTranscribe } from '@/hooks/useTranscribe';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { useFileTranscription } from '@/hooks/useFileTranscription';
+import { useSessionAutosave } from '@/hooks/useSessionAutosave';
+import { useDraftRecovery } from '@/hooks/useDraftRecovery';
+import { DEFAULT_RULE_STATE, RefinementRuleId, refineText } from '@/lib/correctionEngine';
+import { defaultFormatLocale } from '@/lib/inverseNormalization';
+import { WhisperModelConfig, getWhisperModel } from '@/lib/whisperModels';
+import { TranscriptSegment, alignSegmentWords } from '@/lib/transcript';
+import { JobSource, TranscriptionResult } from '@/lib/workerProtocol';
+import { DraftRecord, SessionRecord, defaultSessionTitle } from '@/lib/sessionStore';
+import { DEFAULT_VOICE_COMMAND_SETTINGS, DictationEdit, applyVoiceCommands, resolveVoiceCommands } from '@/lib/voiceCommands';
+import { insertAtSelection, replaceWordInText } from '@/lib/textInsertion';
+import { VocabularyEntry } from '@/lib/vocabulary';
 
 export function DictationProcessor() {
   const [inputText, setInputText] = useState('');
+  const [rules, setRules] = usePersistentState('refinement-rules', DEFAULT_RULE_STATE);
+  const [formatLocale, setFormatLocale] = usePersistentState('refinement-locale', defaultFormatLocale());
 
+  const [voiceCommands, setVoiceCommands] = usePersistentState('voice-commands', DEFAULT_VOICE_COMMAND_SETTINGS);
+  // Edited on the /vocabulary page
+  const [vocabulary] = usePersistentState<VocabularyEntry[]>('vocabulary', []);
+
+  // Commits arrive from worker callbacks, so read the latest text and settings through refs
+  const inputTextRef = useRef(inputText);
+  inputTextRef.current = inputText;
+  const voiceCommandsRef = useRef(voiceCommands);
+  voiceCommandsRef.current = voiceCommands;
+  // Dictated changes that a spoken "undo" can revert
+  const dictationHistoryRef = useRef<DictationEdit[]>([]);
+  const stopRecordingRef = useRef<() => void>(() => undefined);
+
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Caret after the last dictated text, until the textarea has rendered it
+  const pendingCaretRef = useRef<number | null>(null);
+  // Text and caret right after the last dictated change; "undo" only reaches back while both still match
+  const lastDictationRef = useRef<{ text: string; caret: number } | null>(null);
+
+  // Dictation goes in at the caret, replacing any selection; uploaded files are appended.
+  // Results arrive in capture order, and spoken commands only apply to dictation.
+  const appendTranscript = useCallback((text: string, _result: TranscriptionResult, source: JobSource) => {
+    if (source !== 'mic') {
+      setInputText(prev => {
+        const trimmed = prev.trim();
+        return trimmed ? `${trimmed} ${text}` : text;
+      });
+      return;
+    }
+
+    const current = inputTextRef.current;
+    const textarea = textareaRef.current;
+    let start = current.length;
+    let end = current.length;
+    if (pendingCaretRef.current !== null) {
+      start = end = pendingCaretRef.current;
+    } else if (textarea && textarea.value === current) {
+      start = textarea.selectionStart;
+      end = textarea.selectionEnd;
+    }
+
+    const last = lastDictationRef.current;
+    if (!last || last.text !== current || last.caret !== start || start !== end) {
+      dictationHistoryRef.current = [];
+    }
+
+    let stop = false;
+    let undoFailed = false;
+    const commands = voiceCommandsRef.current.enabled ? resolveVoiceCommands(voiceCommandsRef.current) : null;
+    const { text: next, caret } = insertAtSelection(current, start, end, text, commands ? (before, fitted) => {
+      const result = applyVoiceCommands(before.replace(/[^\S\n]+$/, ''), fitted, commands, dictationHistoryRef.current);
+      dictationHistoryRef.current = result.history;
+      stop = result.stopRecording;
+      undoFailed = result.undoFailed;
+      return result.text;
+    } : undefined);
+
+    // Two commits can land before the next render
+    inputTextRef.current = next;
+    lastDictationRef.current = { text: next, caret };
+    if (next !== current) {
+      pendingCaretRef.current = caret;
+      setInputText(next);
+    }
+
+    if (undoFailed) {
+      toast.info('Nothing to undo', { description: 'The text was edited or the cursor moved since the last dictated change.' });
+    }
+    if (stop) stopRecordingRef.current();
+  }, []);
+
+  // Keep the caret after the dictated text, so the next result follows it
+  useLayoutEffect(() => {
+    const caret = pendingCaretRef.current;
+    if (caret === null) return;
+    pendingCaretRef.current = null;
+    textareaRef.current?.setSelectionRange(caret, caret);
+  }, [inputText]);
+
+  // Swap a re-transcribed range into the text too, when its old wording is still there verbatim
+  const replaceTranscript = useCallback((previous: TranscriptSegment[], next: TranscriptSegment[]) => {
+    const oldText = previous.map(segment => segment.text).join(' ');
+    const newText = next.map(segment => segment.text).join(' ');
+    setInputText(prev => {
+      if (oldText && prev.includes(oldText)) return prev.replace(oldText, newText);
+      toast.info('Segments updated', { description: 'The edited text no longer contains the original wording, so it was left as is.' });
+      return prev;
+    });
+  }, []);
+
+  const playerRef = useRef<RecordingPlayerHandle>(null);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const segmentCommands = useMemo(
+    () => (voiceCommands.enabled ? resolveVoiceCommands(voiceCommands) : null),
+    [voiceCommands]
+  );
 
   const {
     isModelLoading,
     isModelLoaded,
     progress: loadingProgress,
+    downloadSize,
+    modelConfig,
+    selectModel,
+    transcriptionOptions,
+    setTranscriptionOptions,
+    detectedLanguage,
     error: modelError,
     isRecording,
     isTranscribing,
-    transcription,
+    partialTranscription,
     logs,
     audioStats,
     audioStream,
+    transcribeAudio,
+    appendRecording,
+    readRecording,
+    getRecordingLength,
+    retranscribeRange,
+    getSessionAudio,
+    compressedCapture,
+    setCompressedCapture,
+    promptSettings,
+    setPromptSettings,
+    recordingDuration,
+    segments,
+    vadConfig,
+    vadStats,
     startRecording,
     stopRecording,
-    resetTranscription
-  } = useTranscribe();
+    cancelTranscription,
+    reloadModel,
+    abortDownload,
+    resetTranscription,
+    restoreTranscription,
+    correctSegmentWord,
+    getCommittedEnd
+  } = useTranscribe({ onCommit: appendTranscript, onReplace: replaceTranscript, vocabulary, voiceCommands: segmentCommands });
+  stopRecordingRef.current = stopRecording;
 
-  // Sync transcription to input text
-  useEffect(() => {
-    if (transcription) {
-      setInputText(prev => {
-        const trimmed = prev.trim();
-        return trimmed ? `${trimmed} ${transcription}` : transcription;
-      });
+  const fileTranscription = useFileTranscription(transcribeAudio, appendRecording);
+
+  const activeSegmentId = useMemo(
+    () => segments.find(segment => playbackTime >= segment.start && playbackTime < segment.end)?.id ?? null,
+    [segments, playbackTime]
+  );
+
+  const selectSegment = useCallback((segment: TranscriptSegment, extend: boolean) => {
+    if (extend) {
+      setSelection(prev => prev
+        ? { start: Math.min(prev.start, segment.start), end: Math.max(prev.end, segment.end) }
+        : { start: segment.start, end: segment.end });
+      return;
+    }
+    setSelection({ start: segment.start, end: segment.end });
+    playerRef.current?.seek(segment.start);
+  }, []);
+
+  // Fixes a word flagged in the segment list, in the segment and wherever it still is in the text
+  const correctWord = useCallback((segment: TranscriptSegment, index: number, replacement: string) => {
+    const words = alignSegmentWords(segment.words ?? [], segment.text).map(word => word.text);
+    if (!correctSegmentWord(segment.id, index, replacement)) return;
+
+    const next = replaceWordInText(inputTextRef.current, words, index, replacement);
+    if (next === null) {
+      toast.info('Segment corrected', { description: `"${words[index]}" could not be found in the edited text, so it was left as is.` });
+      return;
     }
-  }, [transcription]);
+    inputTextRef.current = next;
+    setInputText(next);
+  }, [correctSegmentWord]);
+
+  const retranscribeSelection = useCallback(async (model: WhisperModelConfig) => {
+    if (!selection) return;
+    try {
+      await retranscribeRange(selection.start, selection.end, model);
+      setSelection(null);
+    } catch (err) {
+      toast.error('Re-transcription failed', { description: (err as Error).message });
+    }
+  }, [selection, retranscribeRange]);
 
   const toggleRecording = useCallback(async () => {
     if (isRecording) {
@@ -43,7 +228,91 @@ export function DictationProcessor() {
     }
   }, [isRecording, startRecording, stopRecording]);
 
+  // Drops everything still waiting on the worker, uploaded files included
+  const cancelAll = useCallback(() => {
+    fileTranscription.cancelAll();
+    cancelTranscription();
+  }, [fileTranscription, cancelTranscription]);
+
+  const toggleRule = useCallback((id: RefinementRuleId, enabled: boolean) => {
+    setRules(prev => ({ ...prev, [id]: enabled }));
+  }, [setRules]);
+
+  const refinedText = useMemo(
+    () => refineText(inputText, rules, { locale: formatLocale }),
+    [inputText, rules, formatLocale]
+  );
+
+  const restoreSession = useCallback((record: SessionRecord, audio: Float32Array | null) => {
+    cancelAll();
+    restoreTranscription(record.segments, audio);
+    setInputText(record.text);
+    dictationHistoryRef.current = [];
+    setSelection(null);
+  }, [cancelAll, restoreTranscription]);
+
+  const resetSession = useCallback(() => {
+    cancelAll();
+    resetTranscription();
+    setInputText('');
+    dictationHistoryRef.current = [];
+    setSelection(null);
+  }, [cancelAll, resetTranscription]);
+
+  const [searchOpen, setSearchOpen] = useState(false);
+
+  // Ctrl+K / Cmd+K opens transcript search from anywhere on the page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const session = useSessionAutosave({
+    text: inputText,
+    refinedText,
+    segments,
+    model: modelConfig,
+    recordingDuration,
+    isRecording,
+    readRecording,
+    getRecordingLength,
+    onRestore: restoreSession,
+    onReset: resetSession,
+  });
 
+  const { adoptSession } = session;
+  const restoreDraft = useCallback((draft: DraftRecord, audio: Float32Array) => {
+    cancelAll();
+    adoptSession(draft.sessionId
+      ? { id: draft.sessionId, title: draft.title ?? defaultSessionTitle(new Date(draft.createdAt)), createdAt: draft.createdAt }
+      : null);
+    restoreTranscription(draft.segments, audio, draft.committedEnd);
+    setInputText(draft.text);
+    dictationHistoryRef.current = [];
+    setSelection(null);
+  }, [cancelAll, adoptSession, restoreTranscription]);
+
+  const recovery = useDraftRecovery({
+    active: isRecording || isTranscribing,
+    isModelLoaded,
+    model: modelConfig,
+    text: inputText,
+    segments,
+    readRecording,
+    getCommittedEnd,
+    getSessionInfo: session.getSessionInfo,
+    transcribeAudio,
+    onRestore: restoreDraft,
+    beforeClear: session.flush,
+    onDraftSaved: (title) => toast.info('Interrupted recording kept', { description: `It was saved to the library as "${title}".` }),
+    onError: (message) => toast.error(message),
+  });
 
   return (
     <div className="w-full max-w-4xl mx-auto space-y-6">
@@ -58,13 +327,47 @@ export function DictationProcessor() {
         </p>
       </div>
 
+      <SessionBar
+        title={session.title}
+        status={session.status}
+        lastSavedAt={session.lastSavedAt}
+        error={session.error}
+        isRestoring={session.isRestoring}
+        onNewSession={session.newSession}
+        onSearch={() => setSearchOpen(true)}
+        newSessionDisabled={isRecording}
+      />
+
+      <SearchCommand open={searchOpen} onOpenChange={setSearchOpen} />
+
+      {recovery.draft && (
+        <DraftRecoveryBanner draft={recovery.draft} onRestore={recovery.restore} onDiscard={recovery.discard} />
+      )}
+
       {/* Model Status */}
-      <div className="flex justify-center">
+      <div className="flex flex-wrap justify-center gap-3">
+        <ModelSelector
+          value={modelConfig}
+          onChange={selectModel}
+          disabled={isRecording || isTranscribing || fileTranscription.isProcessing}
+        />
+        {getWhisperModel(modelConfig.model).multilingual && (
+          <LanguageSelector
+            value={transcriptionOptions}
+            onChange={setTranscriptionOptions}
+            detectedLanguage={detectedLanguage}
+            disabled={isRecording}
+          />
+        )}
         <ModelStatus
           isLoading={isModelLoading || isTranscribing}
           isLoaded={isModelLoaded}
           progress={loadingProgress}
+          downloadSize={isModelLoading ? downloadSize : null}
           error={modelError}
+          onCancel={isModelLoading ? abortDownload : isTranscribing ? cancelAll : undefined}
+          cancelLabel={isModelLoading ? 'Cancel download' : 'Cancel transcription'}
+          onLoad={reloadModel}
         />
       </div>
 
@@ -73,30 +376,96 @@ export function DictationProcessor() {
         <div className="flex justify-between items-center pl-1 h-6">
           <label className="text-sm font-medium text-foreground/80">Transcription</label>
           <div className="flex items-center gap-4">
+            <PromptSettingsMenu settings={promptSettings} onChange={setPromptSettings} />
+            <VoiceCommandSettings settings={voiceCommands} onChange={setVoiceCommands} />
             {isRecording && (
               <AudioVisualizer stream={audioStream} isRecording={isRecording} width={100} height={30} />
             )}
             {isTranscribing && (
-              <span className="text-xs text-primary animate-pulse font-medium">Transcribing...</span>
+              <div className="flex items-center gap-1.5">
+                <span className="text-xs text-primary animate-pulse font-medium">Transcribing...</span>
+                <button
+                  type="button"
+                  onClick={cancelAll}
+                  title="Cancel transcription"
+                  aria-label="Cancel transcription"
+                  className="p-0.5 rounded text-muted-foreground hover:text-destructive transition-colors"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
             )}
           </div>
         </div>
-        <DictationInput
-          value={inputText}
-          onChange={setInputText}
-          disabled={false}
-          isRecording={isRecording}
-          onRecord={toggleRecording}
+        <div className={segments.length > 0 ? 'grid gap-3 md:grid-cols-[minmax(0,1fr)_280px]' : ''}>
+          <DictationInput
+            ref={textareaRef}
+            value={inputText}
+            onChange={setInputText}
+            disabled={false}
+            isRecording={isRecording}
+            recordDisabled={fileTranscription.isProcessing}
+            interimText={partialTranscription}
+            onRecord={toggleRecording}
+          />
+          {segments.length > 0 && (
+            <SegmentList
+              segments={segments}
+              activeId={activeSegmentId}
+              selection={selection}
+              onSelect={selectSegment}
+              onCorrectWord={correctWord}
+            />
+          )}
+        </div>
+        {recordingDuration > 0 && (
+          <RecordingPlayer
+            ref={playerRef}
+            duration={recordingDuration}
+            readAudio={readRecording}
+            onTimeUpdate={setPlaybackTime}
+            selection={selection}
+            onClearSelection={() => setSelection(null)}
+            onRetranscribe={retranscribeSelection}
+            defaultModel={modelConfig}
+            disabled={isRecording}
+            retranscribeDisabled={isTranscribing || isModelLoading || fileTranscription.isProcessing}
+          />
+        )}
+        <FileDropzone
+          jobs={fileTranscription.jobs}
+          onFiles={fileTranscription.addFiles}
+          onCancel={fileTranscription.cancelJob}
+          onClearFinished={fileTranscription.clearFinished}
+          disabled={isRecording || !isModelLoaded}
         />
       </div>
 
-
+      {/* Refinement Section */}
+      <OutputDisplay
+        rawText={inputText}
+        refinedText={refinedText}
+        rules={rules}
+        onToggleRule={toggleRule}
+        locale={formatLocale}
+        onLocaleChange={setFormatLocale}
+        actions={
+          <ExportMenu
+            transcript={{ text: refinedText, rawText: inputText, segments }}
+            getSessionAudio={getSessionAudio}
+            hasAudio={recordingDuration > 0}
+            compressedCapture={compressedCapture}
+            onCompressedCaptureChange={setCompressedCapture}
+          />
+        }
+      />
 
       {/* Debug Panel */}
       <DebugPanel
         logs={logs}
         audioStats={audioStats}
         modelState={{ isLoading: isModelLoading, isLoaded: isModelLoaded, isTranscribing }}
+        vad={{ config: vadConfig, stats: vadStats }}
       />
 
       {/* Info Footer */}
@@ -0,0 +1,47 @@
+import { History } from 'lucide-react';
+import { RecoverableDraft } from '@/hooks/useDraftRecovery';
+import { formatTimestamp } from '@/lib/transcript';
+
+interface DraftRecoveryBannerProps {
+  draft: RecoverableDraft;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export function DraftRecoveryBanner({ draft, onRestore, onDiscard }: DraftRecoveryBannerProps) {
+  return (
+    <div className="glass-panel rounded-xl px-4 py-3 border border-primary/30 space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <History className="w-4 h-4 text-primary shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-foreground">
+            An interrupted recording{draft.title ? ` in "${draft.title}"` : ''} can be restored
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Last saved {new Date(draft.updatedAt).toLocaleString()} • {formatTimestamp(draft.duration)} of audio
+            {draft.untranscribed >= 0.5 && <>, {formatTimestamp(draft.untranscribed)} not yet transcribed</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onDiscard}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Discard
+          </button>
+          <button
+            type="button"
+            onClick={onRestore}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-primary/15 text-primary border border-primary/30 hover:bg-primary/25 transition-colors"
+          >
+            Restore & finish
+          </button>
+        </div>
+      </div>
+      {draft.preview && (
+        <p className="text-xs text-foreground/70 line-clamp-2 pl-7">{draft.preview}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Archive, Download, FileText, Loader2, Subtitles } from 'lucide-react';
+import { toast } from 'sonner';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import {
+  DEFAULT_CAPTION_OPTIONS,
+  EXPORT_FORMATS,
+  ExportFormatInfo,
+  TranscriptExportInput,
+  downloadFile,
+  exportFileName,
+  exportTranscript,
+} from '@/lib/transcriptExport';
+import { SessionAudio, buildSessionArchive, isCompressedCaptureSupported } from '@/lib/sessionArchive';
+
+interface ExportMenuProps {
+  transcript: TranscriptExportInput;
+  // Read lazily when the archive is built
+  getSessionAudio: () => SessionAudio;
+  hasAudio: boolean;
+  compressedCapture: boolean;
+  onCompressedCaptureChange: (enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+export function ExportMenu({ transcript, getSessionAudio, hasAudio, compressedCapture, onCompressedCaptureChange, disabled }: ExportMenuProps) {
+  const [captionOptions, setCaptionOptions] = usePersistentState('caption-options', DEFAULT_CAPTION_OPTIONS);
+  const [isArchiving, setIsArchiving] = useState(false);
+
+  const hasSegments = transcript.segments.length > 0;
+  const isEmpty = !transcript.text.trim() && !hasSegments && !hasAudio;
+  const canCompress = isCompressedCaptureSupported();
+
+  const handleExport = (format: ExportFormatInfo) => {
+    const content = exportTranscript(format.id, transcript, captionOptions);
+    downloadFile(content, exportFileName(format.extension), format.mimeType);
+  };
+
+  const handleArchive = async () => {
+    setIsArchiving(true);
+    try {
+      const exportedAt = new Date();
+      const archive = await buildSessionArchive(transcript, getSessionAudio(), captionOptions, exportedAt);
+      downloadFile(archive, exportFileName('zip', exportedAt, 'session'), 'application/zip');
+    } catch (err) {
+      toast.error(`Could not build the archive: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  // Inputs are uncontrolled so a half-typed value is not snapped back; only valid numbers are kept
+  const setOption = (key: 'maxLineLength' | 'maxCaptionSeconds', value: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) return;
+    setCaptionOptions(prev => ({ ...prev, [key]: parsed }));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          disabled={disabled || isEmpty}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Export
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-3 space-y-3">
+        <div className="space-y-1">
+          {EXPORT_FORMATS.map(format => {
+            const unavailable = format.needsSegments && !hasSegments;
+            const Icon = format.id === 'srt' || format.id === 'vtt' ? Subtitles : FileText;
+            return (
+              <button
+                key={format.id}
+                type="button"
+                onClick={() => handleExport(format)}
+                disabled={unavailable}
+                title={unavailable ? 'Needs timestamped segments from a recording or uploaded file' : undefined}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-xs text-foreground/90 hover:bg-white/5 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Icon className="w-3.5 h-3.5 text-primary" />
+                <span>{format.label}</span>
+                <span className="ml-auto font-mono text-muted-foreground/60">.{format.extension}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="pt-3 border-t border-border/30 space-y-2">
+          <p className="text-xs font-medium text-foreground/80">Audio</p>
+          <button
+            type="button"
+            onClick={handleArchive}
+            disabled={!hasAudio || isArchiving}
+            title={!hasAudio ? 'Record or upload audio first' : undefined}
+            className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-xs text-foreground/90 hover:bg-white/5 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isArchiving ? <Loader2 className="w-3.5 h-3.5 text-primary animate-spin" /> : <Archive className="w-3.5 h-3.5 text-primary" />}
+            <span>Session archive (WAV + transcript)</span>
+            <span className="ml-auto font-mono text-muted-foreground/60">.zip</span>
+          </button>
+          <label className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+            <span>
+              Also record WebM/Opus
+              <span className="block text-muted-foreground/60">
+                {canCompress ? 'Applies from the next recording' : 'Not supported in this browser'}
+              </span>
+            </span>
+            <Switch
+              checked={compressedCapture && canCompress}
+              onCheckedChange={onCompressedCaptureChange}
+              disabled={!canCompress}
+            />
+          </label>
+        </div>
+
+        <div className="pt-3 border-t border-border/30 space-y-2">
+          <p className="text-xs font-medium text-foreground/80">Captions</p>
+          <label className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+            Max characters per line
+            <Input
+              type="number"
+              min={10}
+              max={80}
+              defaultValue={captionOptions.maxLineLength}
+              onChange={(e) => setOption('maxLineLength', e.target.value)}
+              className="h-7 w-16 text-xs"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+            Max caption duration (s)
+            <Input
+              type="number"
+              min={1}
+              max={15}
+              step={0.5}
+              defaultValue={captionOptions.maxCaptionSeconds}
+              onChange={(e) => setOption('maxCaptionSeconds', e.target.value)}
+              className="h-7 w-16 text-xs"
+            />
+          </label>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
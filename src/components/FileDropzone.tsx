@@ -0,0 +1,132 @@
+import { useRef, useState, DragEvent } from 'react';
+import { FileAudio, Upload, X, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import { FileJob } from '@/hooks/useFileTranscription';
+import { formatBytes } from '@/lib/whisperModels';
+
+interface FileDropzoneProps {
+  jobs: FileJob[];
+  onFiles: (files: File[]) => void;
+  onCancel: (id: string) => void;
+  onClearFinished: () => void;
+  disabled?: boolean;
+}
+
+const ACCEPTED_TYPES = 'audio/*,video/*,.wav,.mp3,.ogg,.oga,.webm,.m4a,.mp4,.aac,.flac';
+
+function isMediaFile(file: File): boolean {
+  return file.type.startsWith('audio/') || file.type.startsWith('video/') || /\.(wav|mp3|ogg|oga|webm|m4a|mp4|aac|flac)$/i.test(file.name);
+}
+
+const STATUS_LABELS: Record<FileJob['status'], string> = {
+  queued: 'Queued',
+  decoding: 'Decoding...',
+  transcribing: 'Transcribing',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export function FileDropzone({ jobs, onFiles, onCancel, onClearFinished, disabled }: FileDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+    onFiles(Array.from(e.dataTransfer.files).filter(isMediaFile));
+  };
+
+  const hasFinished = jobs.some(job => job.status === 'done' || job.status === 'error' || job.status === 'cancelled');
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(e) => { e.preventDefault(); if (!disabled) setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !disabled && inputRef.current?.click()}
+        className={`flex items-center justify-center gap-3 px-4 py-4 rounded-xl border border-dashed transition-colors ${disabled
+            ? 'border-border/30 text-muted-foreground/40 cursor-not-allowed'
+            : isDragging
+              ? 'border-primary bg-primary/10 text-primary cursor-copy'
+              : 'border-border/50 text-muted-foreground hover:border-primary/40 hover:text-primary cursor-pointer'
+          }`}
+      >
+        <Upload className="w-4 h-4" />
+        <span className="text-xs">Drop audio or video files here, or click to upload (WAV, MP3, OGG, WebM, M4A)</span>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_TYPES}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            onFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {jobs.length > 0 && (
+        <div className="space-y-1.5">
+          {jobs.map(job => {
+            const isActive = job.status === 'queued' || job.status === 'decoding' || job.status === 'transcribing';
+            return (
+              <div key={job.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-navy-800/40 border border-border/30">
+                <FileAudio className="w-4 h-4 text-primary shrink-0" />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-xs">
+                    <span className="truncate text-foreground/80" title={job.name}>{job.name}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {formatBytes(job.size)}
+                      {job.duration !== undefined && ` • ${Math.round(job.duration)}s`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-1.5 rounded-full bg-navy-700 overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-primary to-cyan-soft transition-all duration-300"
+                        style={{ width: `${Math.round(job.progress * 100)}%` }}
+                      />
+                    </div>
+                    <span className={`flex items-center gap-1 text-[11px] whitespace-nowrap ${job.status === 'error' ? 'text-destructive' : 'text-muted-foreground'}`} title={job.error}>
+                      {(job.status === 'decoding' || job.status === 'transcribing') && <Loader2 className="w-3 h-3 animate-spin" />}
+                      {STATUS_LABELS[job.status]}
+                      {job.status === 'transcribing' && job.chunksTotal > 0 && ` ${job.chunksDone}/${job.chunksTotal}`}
+                    </span>
+                  </div>
+                </div>
+                {isActive ? (
+                  <button
+                    type="button"
+                    onClick={() => onCancel(job.id)}
+                    className="p-1 rounded text-muted-foreground hover:text-destructive transition-colors"
+                    title="Cancel this file"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                ) : job.status === 'done' ? (
+                  <CheckCircle2 className="w-4 h-4 text-primary shrink-0" />
+                ) : job.status === 'error' ? (
+                  <AlertCircle className="w-4 h-4 text-destructive shrink-0" />
+                ) : (
+                  <X className="w-4 h-4 text-muted-foreground/50 shrink-0" />
+                )}
+              </div>
+            );
+          })}
+          {hasFinished && (
+            <button
+              type="button"
+              onClick={onClearFinished}
+              className="text-[11px] text-muted-foreground hover:text-primary transition-colors pl-1"
+            >
+              Clear finished
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
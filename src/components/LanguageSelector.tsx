@@ -0,0 +1,61 @@
+import { Languages } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AUTO_DETECT_LANGUAGE,
+  TranscriptionOptions,
+  WHISPER_LANGUAGES,
+  WhisperTask,
+  getLanguageName,
+} from '@/lib/whisperModels';
+
+interface LanguageSelectorProps {
+  value: TranscriptionOptions;
+  onChange: (options: TranscriptionOptions) => void;
+  detectedLanguage: string | null;
+  disabled?: boolean;
+}
+
+export function LanguageSelector({ value, onChange, detectedLanguage, disabled }: LanguageSelectorProps) {
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-navy-800/40 border border-border/30 backdrop-blur-sm">
+      <Languages className="w-4 h-4 text-primary" />
+
+      <Select
+        value={value.language}
+        onValueChange={(language) => onChange({ ...value, language })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 w-[150px] text-xs bg-transparent">
+          <SelectValue placeholder="Language" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO_DETECT_LANGUAGE}>Auto-detect</SelectItem>
+          <SelectSeparator />
+          {WHISPER_LANGUAGES.map(lang => (
+            <SelectItem key={lang.code} value={lang.code}>{lang.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={value.task}
+        onValueChange={(task) => onChange({ ...value, task: task as WhisperTask })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 w-[170px] text-xs bg-transparent">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="transcribe">Transcribe</SelectItem>
+          <SelectItem value="translate">Translate to English</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value.language === AUTO_DETECT_LANGUAGE && detectedLanguage && (
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          Detected: <span className="text-primary">{getLanguageName(detectedLanguage)}</span>
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { WHISPER_MODELS, WhisperModelConfig, estimateDownloadMB } from '@/lib/whisperModels';
+
+interface ModelSelectorProps {
+  value: WhisperModelConfig;
+  onChange: (config: WhisperModelConfig) => void;
+  disabled?: boolean;
+}
+
+export function ModelSelector({ value, onChange, disabled }: ModelSelectorProps) {
+  const englishModels = WHISPER_MODELS.filter(m => !m.multilingual);
+  const multilingualModels = WHISPER_MODELS.filter(m => m.multilingual);
+
+  const renderItem = (id: string, label: string) => (
+    <SelectItem key={id} value={id}>
+      <span className="flex items-center justify-between gap-3 w-full">
+        <span>{label}</span>
+        <span className="text-xs text-muted-foreground">~{estimateDownloadMB({ model: id, quantized: value.quantized })} MB</span>
+      </span>
+    </SelectItem>
+  );
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-navy-800/40 border border-border/30 backdrop-blur-sm">
+      <Select
+        value={value.model}
+        onValueChange={(model) => onChange({ ...value, model })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 w-[220px] text-xs bg-transparent">
+          <SelectValue placeholder="Choose a model" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectLabel className="text-xs">English only</SelectLabel>
+            {englishModels.map(m => renderItem(m.id, m.label))}
+          </SelectGroup>
+          <SelectGroup>
+            <SelectLabel className="text-xs">Multilingual</SelectLabel>
+            {multilingualModels.map(m => renderItem(m.id, m.label))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+
+      <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer" title="Quantized weights are smaller and faster, at a small cost in accuracy">
+        <Switch
+          checked={value.quantized}
+          onCheckedChange={(quantized) => onChange({ ...value, quantized })}
+          disabled={disabled}
+          className="scale-75"
+        />
+        Quantized
+      </label>
+    </div>
+  );
+}
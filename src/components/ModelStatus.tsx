@@ -1,13 +1,20 @@
-import { Brain, CheckCircle2, Loader2, AlertCircle } from 'lucide-react';
+import { Brain, CheckCircle2, Loader2, AlertCircle, X, Download } from 'lucide-react';
+import { formatBytes } from '@/lib/whisperModels';
 
 interface ModelStatusProps {
   isLoading: boolean;
   isLoaded: boolean;
   progress: number;
+  downloadSize?: { loaded: number; total: number } | null;
   error: string | null;
+  // Stops whatever the spinner stands for (a model download or in-flight transcription)
+  onCancel?: () => void;
+  cancelLabel?: string;
+  // Offered when no model is loaded, e.g. after a download was aborted
+  onLoad?: () => void;
 }
 
-export function ModelStatus({ isLoading, isLoaded, progress, error }: ModelStatusProps) {
+export function ModelStatus({ isLoading, isLoaded, progress, downloadSize, error, onCancel, cancelLabel = 'Cancel', onLoad }: ModelStatusProps) {
   return (
     <div className="flex items-center gap-3 px-4 py-2.5 rounded-lg bg-navy-800/40 border border-border/30 backdrop-blur-sm">
       <Brain className="w-4 h-4 text-primary" />
@@ -31,6 +38,22 @@ export function ModelStatus({ isLoading, isLoaded, progress, error }: ModelStatu
               />
             </div>
           )}
+          {downloadSize && (
+            <span className="text-xs text-muted-foreground/70 font-mono">
+              {formatBytes(downloadSize.loaded)} / {formatBytes(downloadSize.total)}
+            </span>
+          )}
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              title={cancelLabel}
+              aria-label={cancelLabel}
+              className="p-0.5 rounded text-muted-foreground hover:text-destructive transition-colors"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
         </div>
       ) : isLoaded ? (
         <div className="flex items-center gap-2">
@@ -38,7 +61,19 @@ export function ModelStatus({ isLoading, isLoaded, progress, error }: ModelStatu
           <span className="text-xs text-muted-foreground">Model ready</span>
         </div>
       ) : (
-        <span className="text-xs text-muted-foreground">Model not loaded</span>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Model not loaded</span>
+          {onLoad && (
+            <button
+              type="button"
+              onClick={onLoad}
+              className="flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <Download className="w-3 h-3" />
+              Load
+            </button>
+          )}
+        </div>
       )}
     </div>
   );
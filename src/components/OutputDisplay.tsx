@@ -0,0 +1,102 @@
+import { ReactNode, useState } from 'react';
+import { Check, Copy, Globe, Sparkles } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { REFINEMENT_RULES, RefinementRuleId, RefinementRuleState } from '@/lib/correctionEngine';
+import { FORMAT_LOCALES } from '@/lib/inverseNormalization';
+
+interface OutputDisplayProps {
+  rawText: string;
+  refinedText: string;
+  rules: RefinementRuleState;
+  onToggleRule: (id: RefinementRuleId, enabled: boolean) => void;
+  // How numbers, dates, prices and units are written
+  locale: string;
+  onLocaleChange: (locale: string) => void;
+  // Extra header controls, e.g. the export menu
+  actions?: ReactNode;
+}
+
+export function OutputDisplay({ rawText, refinedText, rules, onToggleRule, locale, onLocaleChange, actions }: OutputDisplayProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!refinedText) return;
+    await navigator.clipboard.writeText(refinedText);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center pl-1 h-6">
+        <label className="text-sm font-medium text-foreground/80 flex items-center gap-2">
+          <Sparkles className="w-4 h-4 text-primary" /> Smart Refinement
+        </label>
+        <div className="flex items-center gap-4">
+          <Select value={locale} onValueChange={onLocaleChange}>
+            <SelectTrigger
+              title="How numbers, dates, prices and units are written"
+              className="h-7 w-auto gap-1.5 border-none px-0 text-xs text-muted-foreground bg-transparent hover:text-primary focus:ring-0"
+            >
+              <Globe className="w-3.5 h-3.5" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORMAT_LOCALES.map(option => (
+                <SelectItem key={option.code} value={option.code} className="text-xs">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {actions}
+          <button
+            type="button"
+            onClick={handleCopy}
+            disabled={!refinedText}
+            className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+            {copied ? 'Copied' : 'Copy refined'}
+          </button>
+        </div>
+      </div>
+
+      {/* Rule toggles, listed in the order they are applied */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+        {REFINEMENT_RULES.map((rule, index) => (
+          <label
+            key={rule.id}
+            title={rule.description}
+            className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-navy-800/40 border border-border/30 cursor-pointer"
+          >
+            <span className="text-xs text-muted-foreground">
+              <span className="text-primary/70 font-mono mr-1.5">{index + 1}.</span>
+              {rule.label}
+            </span>
+            <Switch
+              checked={rules[rule.id]}
+              onCheckedChange={(checked) => onToggleRule(rule.id, checked)}
+              className="scale-75"
+            />
+          </label>
+        ))}
+      </div>
+
+      {/* Raw vs refined */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="glass-panel rounded-xl p-4 space-y-2">
+          <div className="text-xs font-mono uppercase tracking-wide text-muted-foreground">Raw</div>
+          <p className="text-sm font-mono whitespace-pre-wrap leading-relaxed text-foreground/70 min-h-[120px]">
+            {rawText || <span className="italic text-muted-foreground/60">Nothing dictated yet</span>}
+          </p>
+        </div>
+        <div className="glass-panel-glow rounded-xl p-4 space-y-2">
+          <div className="text-xs font-mono uppercase tracking-wide text-primary">Refined</div>
+          <p className="text-sm font-mono whitespace-pre-wrap leading-relaxed text-foreground min-h-[120px]">
+            {refinedText || <span className="italic text-muted-foreground/60">Refined text will appear here</span>}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
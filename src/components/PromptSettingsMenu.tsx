@@ -0,0 +1,53 @@
+import { ScrollText } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { PromptSettings } from '@/lib/decoderPrompt';
+
+interface PromptSettingsMenuProps {
+  settings: PromptSettings;
+  onChange: (settings: PromptSettings) => void;
+}
+
+export function PromptSettingsMenu({ settings, onChange }: PromptSettingsMenuProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors"
+        >
+          <ScrollText className="w-3.5 h-3.5" />
+          Context
+          {!settings.enabled && <span className="text-muted-foreground/60">(off)</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-3 space-y-3">
+        <label className="flex items-center justify-between gap-3">
+          <span className="text-xs font-medium text-foreground/80">
+            Prompt with context
+            <span className="block font-normal text-muted-foreground/70">
+              Each chunk continues from the text before it. Turn off if the transcript starts repeating itself.
+            </span>
+          </span>
+          <Switch checked={settings.enabled} onCheckedChange={(enabled) => onChange({ ...settings, enabled })} />
+        </label>
+
+        <div className="space-y-1.5">
+          <label htmlFor="initial-prompt" className="text-xs font-medium text-foreground/80">Initial prompt</label>
+          <Textarea
+            id="initial-prompt"
+            value={settings.initialPrompt}
+            onChange={(e) => onChange({ ...settings, initialPrompt: e.target.value })}
+            disabled={!settings.enabled}
+            placeholder="Names, terms and style, e.g. Weekly sync with Siobhán and Raj about the Kubernetes migration."
+            className="min-h-[90px] text-xs"
+          />
+          <p className="text-xs text-muted-foreground/70">
+            Written the way the transcript should read: spelling, casing and punctuation carry over.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,161 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Loader2, Pause, Play, RefreshCw, X } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { ModelSelector } from './ModelSelector';
+import { WHISPER_SAMPLE_RATE, encodeWav } from '@/lib/audioProcessing';
+import { WhisperModelConfig } from '@/lib/whisperModels';
+import { formatTimestamp } from '@/lib/transcript';
+
+export interface RecordingPlayerHandle {
+  seek: (seconds: number) => void;
+}
+
+interface RecordingPlayerProps {
+  duration: number;
+  // Session audio at 16kHz; read again whenever `duration` changes
+  readAudio: () => Float32Array;
+  onTimeUpdate: (seconds: number) => void;
+  selection: { start: number; end: number } | null;
+  onClearSelection: () => void;
+  onRetranscribe: (model: WhisperModelConfig) => Promise<void>;
+  defaultModel: WhisperModelConfig;
+  // Playback and re-transcription are unavailable while recording
+  disabled?: boolean;
+  retranscribeDisabled?: boolean;
+}
+
+export const RecordingPlayer = forwardRef<RecordingPlayerHandle, RecordingPlayerProps>(
+  ({ duration, readAudio, onTimeUpdate, selection, onClearSelection, onRetranscribe, defaultModel, disabled, retranscribeDisabled }, ref) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [url, setUrl] = useState<string | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [model, setModel] = useState(defaultModel);
+    const [isRetranscribing, setIsRetranscribing] = useState(false);
+
+    const readAudioRef = useRef(readAudio);
+    readAudioRef.current = readAudio;
+
+    // Re-encode once the recording has grown and capture has stopped
+    useEffect(() => {
+      if (disabled || duration === 0) {
+        setUrl(null);
+        return;
+      }
+      const objectUrl = URL.createObjectURL(encodeWav(readAudioRef.current(), WHISPER_SAMPLE_RATE));
+      setUrl(objectUrl);
+      return () => URL.revokeObjectURL(objectUrl);
+    }, [duration, disabled]);
+
+    useImperativeHandle(ref, () => ({
+      seek: (seconds: number) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        audio.currentTime = seconds;
+        setCurrentTime(seconds);
+        onTimeUpdate(seconds);
+        audio.play();
+      },
+    }), [onTimeUpdate]);
+
+    const togglePlay = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      if (audio.paused) {
+        audio.play();
+      } else {
+        audio.pause();
+      }
+    };
+
+    const handleTimeUpdate = () => {
+      const time = audioRef.current?.currentTime ?? 0;
+      setCurrentTime(time);
+      onTimeUpdate(time);
+    };
+
+    const retranscribe = async () => {
+      setIsRetranscribing(true);
+      try {
+        await onRetranscribe(model);
+      } finally {
+        setIsRetranscribing(false);
+      }
+    };
+
+    return (
+      <div className="glass-panel rounded-xl px-4 py-3 space-y-3">
+        {url && (
+          <audio
+            ref={audioRef}
+            src={url}
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onEnded={() => setIsPlaying(false)}
+            onTimeUpdate={handleTimeUpdate}
+            className="hidden"
+          />
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={togglePlay}
+            disabled={!url}
+            aria-label={isPlaying ? 'Pause' : 'Play'}
+            className="p-2 rounded-lg border border-border/50 bg-navy-700/60 text-muted-foreground hover:text-primary hover:border-primary/30 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <Slider
+            value={[Math.min(currentTime, duration)]}
+            max={Math.max(duration, 0.1)}
+            step={0.1}
+            disabled={!url}
+            onValueChange={([time]) => {
+              if (audioRef.current) audioRef.current.currentTime = time;
+              setCurrentTime(time);
+              onTimeUpdate(time);
+            }}
+            className="flex-1"
+          />
+          <span className="text-xs font-mono text-muted-foreground whitespace-nowrap">
+            {formatTimestamp(currentTime)} / {formatTimestamp(duration)}
+          </span>
+        </div>
+
+        {disabled && (
+          <p className="text-xs text-muted-foreground/60">Playback is available once recording stops</p>
+        )}
+
+        {selection && !disabled && (
+          <div className="flex flex-wrap items-center gap-3 pt-1 border-t border-border/30">
+            <span className="text-xs text-foreground/80">
+              Selected <span className="font-mono text-primary">{formatTimestamp(selection.start)} – {formatTimestamp(selection.end)}</span>
+            </span>
+            <ModelSelector value={model} onChange={setModel} disabled={isRetranscribing} />
+            <button
+              type="button"
+              onClick={retranscribe}
+              disabled={isRetranscribing || retranscribeDisabled}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-primary/15 text-primary border border-primary/30 hover:bg-primary/25 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            >
+              {isRetranscribing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+              Re-transcribe
+            </button>
+            <button
+              type="button"
+              onClick={onClearSelection}
+              aria-label="Clear selection"
+              className="p-1 rounded text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+RecordingPlayer.displayName = 'RecordingPlayer';
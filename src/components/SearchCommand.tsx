@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FileText, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { SearchIndex } from '@/lib/searchIndex';
+import { listSessions } from '@/lib/sessionStore';
+
+interface SearchCommandProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function Highlighted({ text, ranges }: { text: string; ranges: [number, number][] }) {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(<span key={`t${i}`}>{text.slice(cursor, start)}</span>);
+    parts.push(<mark key={`m${i}`} className="bg-primary/25 text-foreground rounded-sm px-0.5">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(<span key="rest">{text.slice(cursor)}</span>);
+  return <>{parts}</>;
+}
+
+/**
+ * Searches every saved session. The index is rebuilt from the library each time the dialog
+ * opens, so it always reflects the latest saves.
+ */
+export function SearchCommand({ open, onOpenChange }: SearchCommandProps) {
+  const navigate = useNavigate();
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [query, setQuery] = useState('');
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setIsIndexing(true);
+    listSessions()
+      .then(sessions => {
+        if (cancelled) return;
+        const next = new SearchIndex();
+        for (const session of sessions) {
+          next.add({
+            id: session.id,
+            title: session.title,
+            text: session.refinedText || session.text,
+            updatedAt: session.updatedAt,
+          });
+        }
+        setError(null);
+        setIndex(next);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsIndexing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const results = useMemo(() => (index && query.trim() ? index.search(query) : []), [index, query]);
+  const sessionCount = index?.size ?? 0;
+
+  const openSession = (id: string) => {
+    onOpenChange(false);
+    navigate(`/?session=${id}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search transcripts</DialogTitle>
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder='Search transcripts... ("exact phrase", prefix*)'
+          />
+          <CommandList className="max-h-[420px]">
+            {isIndexing && (
+              <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" /> Indexing sessions...
+              </div>
+            )}
+            {error && <p className="py-6 text-center text-sm text-destructive">{error}</p>}
+            {!isIndexing && !error && query.trim() && (
+              <CommandEmpty>No transcripts match.</CommandEmpty>
+            )}
+            {!isIndexing && !error && !query.trim() && (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                Search {sessionCount} saved session{sessionCount === 1 ? '' : 's'}
+              </p>
+            )}
+            {results.map(result => (
+              <CommandItem
+                key={result.document.id}
+                value={result.document.id}
+                onSelect={() => openSession(result.document.id)}
+                className="flex flex-col items-start gap-1 px-3 py-2"
+              >
+                <div className="flex w-full items-center gap-2">
+                  <FileText className="w-4 h-4 shrink-0 text-primary" />
+                  <span className="font-medium truncate">
+                    <Highlighted text={result.document.title} ranges={result.titleHighlights} />
+                  </span>
+                  <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                    {new Date(result.document.updatedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                {result.snippet && (
+                  <p className="text-xs text-muted-foreground leading-relaxed">
+                    <Highlighted text={result.snippet.text} ranges={result.snippet.highlights} />
+                  </p>
+                )}
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { Fragment, useEffect, useMemo, useRef } from 'react';
+import { Clock, FileAudio, Mic } from 'lucide-react';
+import { TranscriptSegment, alignSegmentWords, formatTimestamp } from '@/lib/transcript';
+import { isLowConfidence } from '@/lib/wordConfidence';
+import { WordCorrection } from './WordCorrection';
+
+interface SegmentListProps {
+  segments: TranscriptSegment[];
+  // Segment under the playback position
+  activeId?: string | null;
+  selection?: { start: number; end: number } | null;
+  // `extend` is set on shift-click, to grow the selection instead of replacing it
+  onSelect?: (segment: TranscriptSegment, extend: boolean) => void;
+  // Replaces word `index` of the segment; low-confidence words are only clickable when set
+  onCorrectWord?: (segment: TranscriptSegment, index: number, replacement: string) => void;
+}
+
+export function SegmentList({ segments, activeId, selection, onSelect, onCorrectWord }: SegmentListProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const segmentWords = useMemo(
+    () => new Map(segments.map(segment => [segment.id, alignSegmentWords(segment.words ?? [], segment.text)])),
+    [segments]
+  );
+  const unsureCount = useMemo(
+    () => Array.from(segmentWords.values()).reduce((sum, words) => sum + words.filter(isLowConfidence).length, 0),
+    [segmentWords]
+  );
+
+  // Keep the newest segment in view while dictating, without scrolling the page
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [segments.length]);
+
+  return (
+    <div className="glass-panel rounded-xl overflow-hidden flex flex-col max-h-[360px]">
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-border/30 text-xs font-medium text-foreground/80">
+        <Clock className="w-3.5 h-3.5 text-primary" />
+        Segments
+        {unsureCount > 0 && (
+          <span className="text-[11px] font-normal text-yellow-400/80" title="Underlined words may be wrong; click one to correct it">
+            {unsureCount} unsure {unsureCount === 1 ? 'word' : 'words'}
+          </span>
+        )}
+        <span className="ml-auto text-muted-foreground/60 font-mono">{segments.length}</span>
+      </div>
+
+      <div ref={listRef} className="overflow-y-auto p-2 space-y-1">
+        {segments.length === 0 ? (
+          <p className="px-2 py-6 text-center text-xs text-muted-foreground/60">
+            Timestamped segments appear here as speech is transcribed
+          </p>
+        ) : (
+          segments.map(segment => {
+            const isSelected = !!selection && segment.start >= selection.start && segment.end <= selection.end;
+            const words = segmentWords.get(segment.id) ?? [];
+            // Not a <button>, since words inside it can be buttons too
+            return (
+              <div
+                key={segment.id}
+                role="button"
+                tabIndex={0}
+                onClick={(e) => onSelect?.(segment, e.shiftKey)}
+                onKeyDown={(e) => {
+                  if (e.target !== e.currentTarget || (e.key !== 'Enter' && e.key !== ' ')) return;
+                  e.preventDefault();
+                  onSelect?.(segment, e.shiftKey);
+                }}
+                title="Click to play from here, shift-click to extend the selection"
+                className={`w-full text-left flex gap-3 px-2 py-1.5 rounded-md border cursor-pointer transition-colors ${segment.id === activeId
+                    ? 'bg-primary/15 border-primary/30'
+                    : isSelected
+                      ? 'bg-white/10 border-border/50'
+                      : 'border-transparent hover:bg-white/5'
+                  }`}
+              >
+                <div className="flex flex-col items-end shrink-0 pt-0.5">
+                  <span className="text-[11px] font-mono text-primary">{formatTimestamp(segment.start)}</span>
+                  <span className="text-[10px] font-mono text-muted-foreground/50">{formatTimestamp(segment.end)}</span>
+                </div>
+                <p className="text-xs leading-relaxed text-foreground/90">
+                  {segment.source === 'file'
+                    ? <FileAudio className="inline w-3 h-3 mr-1 text-muted-foreground/60 align-[-2px]" />
+                    : <Mic className="inline w-3 h-3 mr-1 text-muted-foreground/60 align-[-2px]" />}
+                  {words.map((word, index) => (
+                    <Fragment key={index}>
+                      {index > 0 && ' '}
+                      {onCorrectWord && isLowConfidence(word) ? (
+                        <WordCorrection
+                          word={word}
+                          onCorrect={(replacement) => onCorrectWord(segment, index, replacement)}
+                        />
+                      ) : word.text}
+                    </Fragment>
+                  ))}
+                </p>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { Link } from 'react-router-dom';
+import { AlertCircle, BookA, Check, FilePlus, FolderOpen, Loader2, Search } from 'lucide-react';
+import { SaveStatus } from '@/hooks/useSessionAutosave';
+
+interface SessionBarProps {
+  title: string | null;
+  status: SaveStatus;
+  lastSavedAt: number | null;
+  error: string | null;
+  isRestoring: boolean;
+  onNewSession: () => void;
+  onSearch: () => void;
+  newSessionDisabled?: boolean;
+}
+
+export function SessionBar({ title, status, lastSavedAt, error, isRestoring, onNewSession, onSearch, newSessionDisabled }: SessionBarProps) {
+  const savedTime = lastSavedAt
+    ? new Date(lastSavedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : null;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 px-1">
+      <div className="flex items-center gap-2 min-w-0 text-xs">
+        <span className="font-medium text-foreground/80 truncate">
+          {isRestoring ? 'Opening session...' : title ?? 'New session'}
+        </span>
+        {status === 'saving' && (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" /> Saving
+          </span>
+        )}
+        {status === 'saved' && savedTime && (
+          <span className="flex items-center gap-1 text-muted-foreground/70">
+            <Check className="w-3 h-3" /> Saved {savedTime}
+          </span>
+        )}
+        {status === 'error' && (
+          <span className="flex items-center gap-1 text-destructive" title={error ?? undefined}>
+            <AlertCircle className="w-3 h-3" /> Not saved
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={onSearch}
+          title="Search transcripts (Ctrl+K)"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors"
+        >
+          <Search className="w-3.5 h-3.5" />
+          Search
+          <kbd className="hidden sm:inline font-mono text-[10px] text-muted-foreground/60 border border-border/50 rounded px-1">⌘K</kbd>
+        </button>
+        <button
+          type="button"
+          onClick={onNewSession}
+          disabled={newSessionDisabled || isRestoring}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <FilePlus className="w-3.5 h-3.5" />
+          New
+        </button>
+        <Link
+          to="/sessions"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors"
+        >
+          <FolderOpen className="w-3.5 h-3.5" />
+          Sessions
+        </Link>
+        <Link
+          to="/vocabulary"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors"
+        >
+          <BookA className="w-3.5 h-3.5" />
+          Vocabulary
+        </Link>
+      </div>
+    </div>
+  );
+}
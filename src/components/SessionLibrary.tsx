@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useRef, useState, KeyboardEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Copy, FolderOpen, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { SessionRecord, deleteSession, duplicateSession, listSessions, renameSession } from '@/lib/sessionStore';
+import { formatTimestamp } from '@/lib/transcript';
+import { getWhisperModel } from '@/lib/whisperModels';
+
+const PREVIEW_LENGTH = 160;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export function SessionLibrary() {
+  const [sessions, setSessions] = useState<SessionRecord[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<SessionRecord | null>(null);
+  // Enter, Escape and blur can all end an edit; only the first one counts
+  const renamingRef = useRef(renaming);
+  renamingRef.current = renaming;
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(errorMessage(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const endRename = () => {
+    const edit = renamingRef.current;
+    renamingRef.current = null;
+    setRenaming(null);
+    return edit;
+  };
+
+  const commitRename = async () => {
+    const edit = endRename();
+    const title = edit?.title.trim();
+    if (!edit || !title) return;
+    try {
+      await renameSession(edit.id, title);
+      await refresh();
+    } catch (err) {
+      toast.error('Could not rename the session', { description: errorMessage(err) });
+    }
+  };
+
+  const handleRenameKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commitRename();
+    if (e.key === 'Escape') endRename();
+  };
+
+  const handleDuplicate = async (session: SessionRecord) => {
+    try {
+      const copy = await duplicateSession(session.id);
+      toast.success(`Duplicated as "${copy.title}"`);
+      await refresh();
+    } catch (err) {
+      toast.error('Could not duplicate the session', { description: errorMessage(err) });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const { id, title } = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await deleteSession(id);
+      toast.success(`Deleted "${title}"`);
+      await refresh();
+    } catch (err) {
+      toast.error('Could not delete the session', { description: errorMessage(err) });
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">Sessions</h1>
+        <Link
+          to="/"
+          className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-primary transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to dictation
+        </Link>
+      </div>
+
+      {loadError && (
+        <p className="text-sm text-destructive">Could not open the session library: {loadError}</p>
+      )}
+
+      {!sessions && !loadError && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" /> Loading sessions...
+        </div>
+      )}
+
+      {sessions?.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No saved sessions yet. Dictations are saved here automatically as you work.
+        </p>
+      )}
+
+      {sessions && sessions.length > 0 && (
+        <ul className="space-y-3">
+          {sessions.map(session => {
+            const preview = (session.refinedText || session.text).trim();
+            return (
+              <li key={session.id} className="glass-panel rounded-xl px-4 py-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-3">
+                  {renaming?.id === session.id ? (
+                    <Input
+                      autoFocus
+                      value={renaming.title}
+                      onChange={(e) => setRenaming({ id: session.id, title: e.target.value })}
+                      onKeyDown={handleRenameKey}
+                      onBlur={commitRename}
+                      className="h-8 max-w-xs text-sm"
+                    />
+                  ) : (
+                    <Link to={`/?session=${session.id}`} className="font-medium text-foreground hover:text-primary transition-colors truncate">
+                      {session.title}
+                    </Link>
+                  )}
+                  <div className="ml-auto flex items-center gap-1">
+                    <Link
+                      to={`/?session=${session.id}`}
+                      title="Open"
+                      aria-label="Open"
+                      className="p-1.5 rounded text-muted-foreground hover:text-primary transition-colors"
+                    >
+                      <FolderOpen className="w-4 h-4" />
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={() => setRenaming({ id: session.id, title: session.title })}
+                      title="Rename"
+                      aria-label="Rename"
+                      className="p-1.5 rounded text-muted-foreground hover:text-primary transition-colors"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDuplicate(session)}
+                      title="Duplicate"
+                      aria-label="Duplicate"
+                      className="p-1.5 rounded text-muted-foreground hover:text-primary transition-colors"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setPendingDelete(session)}
+                      title="Delete"
+                      aria-label="Delete"
+                      className="p-1.5 rounded text-muted-foreground hover:text-destructive transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(session.updatedAt).toLocaleString()}
+                  {session.duration > 0 && <> • {formatTimestamp(session.duration)} of audio</>}
+                  {' • '}{getWhisperModel(session.model.model).label}
+                </p>
+                {preview && (
+                  <p className="text-sm text-foreground/80 line-clamp-2">
+                    {preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH)}...` : preview}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and its audio will be removed from this browser. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import {
+  VOCABULARY_MATCHES,
+  VocabularyEntry,
+  VocabularyFormat,
+  VocabularyMatch,
+  compileVocabulary,
+  createVocabularyEntry,
+  exportVocabulary,
+  importVocabulary,
+  vocabularyEntryError,
+} from '@/lib/vocabulary';
+import { downloadFile, exportFileName } from '@/lib/transcriptExport';
+
+const FORMAT_MIME_TYPES: Record<VocabularyFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+};
+
+function findPlaceholder(match: VocabularyMatch): string {
+  if (match === 'regex') return 'Pattern, e.g. (\\d+) k\\b';
+  if (match === 'phonetic') return 'Sounds like (optional)';
+  return 'Find';
+}
+
+export function VocabularyEditor() {
+  const [entries, setEntries] = usePersistentState<VocabularyEntry[]>('vocabulary', []);
+  const [sample, setSample] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const correctedSample = useMemo(() => compileVocabulary(entries)(sample), [entries, sample]);
+
+  const updateEntry = (id: string, patch: Partial<VocabularyEntry>) => {
+    setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)));
+  };
+
+  const removeEntry = (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+  };
+
+  const handleExport = (format: VocabularyFormat) => {
+    downloadFile(exportVocabulary(entries, format), exportFileName(format, new Date(), 'vocabulary'), FORMAT_MIME_TYPES[format]);
+  };
+
+  // Imported entries are added after the existing ones, skipping any already in the list
+  const handleImport = async (file: File) => {
+    const format: VocabularyFormat = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+    try {
+      const imported = importVocabulary(await file.text(), format);
+      const key = (entry: VocabularyEntry) => `${entry.match}\u0000${entry.find}\u0000${entry.replace}`;
+      const existing = new Set(entries.map(key));
+      const added = imported.filter(entry => !existing.has(key(entry)));
+      setEntries(prev => [...prev, ...added]);
+      toast.success(`Imported ${added.length} ${added.length === 1 ? 'entry' : 'entries'}`, {
+        description: added.length < imported.length ? `${imported.length - added.length} already in the list` : undefined,
+      });
+    } catch (err) {
+      toast.error(`Could not import ${file.name}`, { description: (err as Error).message });
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">Vocabulary</h1>
+        <Link
+          to="/"
+          className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-primary transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to dictation
+        </Link>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Corrections applied to every transcription result, top to bottom. Use them for names and terms the
+        model keeps misspelling. "Sounds like" entries also catch spellings that are pronounced the same, across up to
+        three words.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setEntries(prev => [...prev, createVocabularyEntry()])}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-primary/15 text-primary border border-primary/30 hover:bg-primary/25 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add entry
+        </button>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors"
+        >
+          <Upload className="w-3.5 h-3.5" />
+          Import JSON or CSV
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+        {(['json', 'csv'] as const).map(format => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            disabled={entries.length === 0}
+            className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No entries yet. Add one, or import a list exported from another browser.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(entry => {
+            const error = vocabularyEntryError(entry);
+            return (
+              <li key={entry.id} className="glass-panel rounded-xl px-4 py-3 space-y-1.5">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Switch
+                    checked={entry.enabled}
+                    onCheckedChange={(enabled) => updateEntry(entry.id, { enabled })}
+                    aria-label="Enabled"
+                  />
+                  <Input
+                    value={entry.find}
+                    onChange={(e) => updateEntry(entry.id, { find: e.target.value })}
+                    placeholder={findPlaceholder(entry.match)}
+                    className={`h-8 flex-1 min-w-[140px] text-sm ${entry.match === 'regex' ? 'font-mono' : ''}`}
+                  />
+                  <Input
+                    value={entry.replace}
+                    onChange={(e) => updateEntry(entry.id, { replace: e.target.value })}
+                    placeholder={entry.match === 'phonetic' ? 'Correct spelling' : 'Replace with'}
+                    className="h-8 flex-1 min-w-[140px] text-sm"
+                  />
+                  <Select
+                    value={entry.match}
+                    onValueChange={(match) => updateEntry(entry.id, { match: match as VocabularyMatch })}
+                  >
+                    <SelectTrigger className="h-8 w-[130px] text-xs bg-transparent">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VOCABULARY_MATCHES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <button
+                    type="button"
+                    onClick={() => removeEntry(entry.id)}
+                    title="Delete"
+                    aria-label="Delete"
+                    className="p-1.5 rounded text-muted-foreground hover:text-destructive transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {error && (entry.find || entry.replace) && (
+                  <p className="text-xs text-destructive pl-12">{error}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="glass-panel rounded-xl px-4 py-3 space-y-2">
+        <label className="text-xs font-medium text-foreground/80">Try it</label>
+        <Input
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          placeholder="Type or paste a sentence as the model would write it"
+          className="h-8 text-sm"
+        />
+        {sample && (
+          <p className="text-sm text-foreground/80">{correctedSample}</p>
+        )}
+      </div>
+    </div>
+  );
+}
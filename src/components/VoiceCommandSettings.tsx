@@ -0,0 +1,98 @@
+import { MessageSquareText, Pause, RotateCcw } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  DEFAULT_VOICE_COMMAND_SETTINGS,
+  VoiceCommandSettings as Settings,
+  resolveVoiceCommands,
+} from '@/lib/voiceCommands';
+
+interface VoiceCommandSettingsProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+export function VoiceCommandSettings({ settings, onChange }: VoiceCommandSettingsProps) {
+  const commands = resolveVoiceCommands(settings);
+
+  const updateCommand = (id: string, patch: Settings['overrides'][string]) => {
+    onChange({
+      ...settings,
+      overrides: { ...settings.overrides, [id]: { ...settings.overrides[id], ...patch } },
+    });
+  };
+
+  // Phrases are edited as a comma-separated list and saved when the field loses focus
+  const commitPhrases = (id: string, value: string) => {
+    const phrases = value.split(',').map(phrase => phrase.trim().toLowerCase()).filter(Boolean);
+    if (phrases.length > 0) updateCommand(id, { phrases });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors"
+        >
+          <MessageSquareText className="w-3.5 h-3.5" />
+          Voice commands
+          {!settings.enabled && <span className="text-muted-foreground/60">(off)</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-3 space-y-3">
+        <label className="flex items-center justify-between gap-3">
+          <span className="text-xs font-medium text-foreground/80">
+            Recognize spoken commands
+            <span className="block font-normal text-muted-foreground/70">
+              Say "literal" first to type a phrase instead. Commands with <Pause className="inline w-3 h-3" /> on only run at the end of a phrase.
+            </span>
+          </span>
+          <Switch checked={settings.enabled} onCheckedChange={(enabled) => onChange({ ...settings, enabled })} />
+        </label>
+
+        <div className="max-h-80 overflow-y-auto space-y-1.5 pr-1">
+          {commands.map(command => (
+            <div key={command.id} className="flex items-center gap-2">
+              <Switch
+                checked={command.enabled}
+                onCheckedChange={(enabled) => updateCommand(command.id, { enabled })}
+                disabled={!settings.enabled}
+                className="scale-75"
+              />
+              <span className="w-28 shrink-0 text-xs text-muted-foreground">{command.label}</span>
+              <Input
+                // Remount when the phrases change elsewhere (e.g. reset)
+                key={command.phrases.join(',')}
+                defaultValue={command.phrases.join(', ')}
+                onBlur={(e) => commitPhrases(command.id, e.target.value)}
+                disabled={!settings.enabled || !command.enabled}
+                className="h-7 text-xs"
+              />
+              <button
+                type="button"
+                title={command.phraseEndOnly ? 'Only at the end of a phrase' : 'Anywhere in a sentence'}
+                aria-pressed={command.phraseEndOnly}
+                onClick={() => updateCommand(command.id, { phraseEndOnly: !command.phraseEndOnly })}
+                disabled={!settings.enabled || !command.enabled}
+                className={`shrink-0 p-1 rounded transition-colors disabled:opacity-50 ${command.phraseEndOnly ? 'text-primary' : 'text-muted-foreground/40 hover:text-muted-foreground'}`}
+              >
+                <Pause className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_VOICE_COMMAND_SETTINGS)}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          Reset to defaults
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+}
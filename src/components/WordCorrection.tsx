@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Input } from '@/components/ui/input';
+import { SegmentWord } from '@/lib/transcript';
+
+interface WordCorrectionProps {
+  word: SegmentWord;
+  // An empty replacement removes the word
+  onCorrect: (replacement: string) => void;
+}
+
+// A low-confidence word in the segment list, with the alternatives Whisper weighed for it
+export function WordCorrection({ word, onCorrect }: WordCorrectionProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(word.text);
+
+  const apply = (replacement: string) => {
+    setOpen(false);
+    if (replacement.trim() !== word.text) onCorrect(replacement);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setDraft(word.text);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          onClick={(e) => e.stopPropagation()}
+          title={`${Math.round((word.confidence ?? 0) * 100)}% sure. Click to correct`}
+          className="underline decoration-dotted decoration-yellow-400 underline-offset-2 hover:text-yellow-400 transition-colors"
+        >
+          {word.text}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-3 space-y-2.5" onClick={(e) => e.stopPropagation()}>
+        <p className="text-xs text-muted-foreground">
+          Whisper was {Math.round((word.confidence ?? 0) * 100)}% sure of "{word.text}"
+        </p>
+
+        {word.alternatives && word.alternatives.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {word.alternatives.map(alternative => (
+              <button
+                key={alternative}
+                type="button"
+                onClick={() => apply(alternative)}
+                className="px-2 py-1 rounded-md text-xs bg-white/5 border border-border/50 hover:bg-primary/15 hover:border-primary/30 transition-colors"
+              >
+                {alternative}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            apply(draft);
+          }}
+        >
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            aria-label="Correction"
+            className="h-8 text-sm"
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="px-2.5 py-1.5 rounded-lg text-xs font-medium bg-primary/15 text-primary border border-primary/30 hover:bg-primary/25 transition-colors"
+          >
+            Fix
+          </button>
+        </form>
+        <button
+          type="button"
+          onClick={() => apply('')}
+          className="text-xs text-muted-foreground hover:text-destructive transition-colors"
+        >
+          Remove word
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { WHISPER_SAMPLE_RATE, encodeWav, splitAtQuietPoints } from '@/lib/audioProcessing';
+import { DraftRecord, checkpointDraft, clearDraft, createSessionId, defaultSessionTitle, readDraft, saveSession } from '@/lib/sessionStore';
+import { TranscriptSegment } from '@/lib/transcript';
+import { WINDOW_OVERLAP_SECONDS } from '@/lib/transcriptStitching';
+import { WhisperModelConfig } from '@/lib/whisperModels';
+import { TranscribeAudioOptions } from './useTranscribe';
+import { SessionInfo } from './useSessionAutosave';
+
+export interface RecoverableDraft {
+    updatedAt: number;
+    title: string | null;
+    // Seconds of audio in the draft, and how much of it never got transcribed
+    duration: number;
+    untranscribed: number;
+    preview: string;
+}
+
+interface DraftRecoveryOptions {
+    // Recording, or transcription still pending: audio that is not safely in a session yet.
+    // Finishing a restored draft counts too.
+    active: boolean;
+    isModelLoaded: boolean;
+    // Stored with a found draft that gets saved as a session (see onDraftSaved)
+    model: WhisperModelConfig;
+    text: string;
+    segments: TranscriptSegment[];
+    readRecording: (start?: number, end?: number) => Float32Array;
+    getCommittedEnd: () => number;
+    getSessionInfo: () => SessionInfo | null;
+    transcribeAudio: (audio: Float32Array, sampleRate: number, options?: TranscribeAudioOptions) => Promise<string>;
+    onRestore: (draft: DraftRecord, audio: Float32Array) => void;
+    // Runs before a finished draft is dropped, e.g. to save the session it belongs to
+    beforeClear: () => Promise<void>;
+    // A found draft was saved to the library because a new recording started before it was answered
+    onDraftSaved?: (title: string) => void;
+    onError?: (message: string) => void;
+}
+
+interface DraftRecoveryHook {
+    draft: RecoverableDraft | null;
+    // Transcribing the audio of a restored draft
+    isFinishing: boolean;
+    restore: () => void;
+    discard: () => void;
+}
+
+// How much recorded audio a crash can lose
+const CHECKPOINT_INTERVAL_MS = 5000;
+// Same chunking as uploaded files
+const MAX_CHUNK_SECONDS = 28;
+const PREVIEW_LENGTH = 120;
+
+// Keeps a found draft as a new library session, untouched, so nothing in it is lost
+async function saveDraftAsSession({ draft, audio }: { draft: DraftRecord; audio: Float32Array }, model: WhisperModelConfig) {
+    const title = `${draft.title ?? defaultSessionTitle(new Date(draft.createdAt))} (recovered)`;
+    await saveSession({
+        id: createSessionId(),
+        title,
+        createdAt: draft.createdAt,
+        updatedAt: draft.updatedAt,
+        text: draft.text,
+        refinedText: '',
+        segments: draft.segments,
+        model,
+        duration: audio.length / WHISPER_SAMPLE_RATE,
+    }, audio.length > 0 ? encodeWav(audio, WHISPER_SAMPLE_RATE) : null);
+    return title;
+}
+
+/**
+ * Checkpoints an in-progress recording to IndexedDB every few seconds: the transcript so far,
+ * how far it got, and the audio, appended in chunks. The draft is dropped once everything is
+ * transcribed; one left over at launch means the tab died, so it is offered for restore.
+ */
+export function useDraftRecovery({
+    active,
+    isModelLoaded,
+    model,
+    text,
+    segments,
+    readRecording,
+    getCommittedEnd,
+    getSessionInfo,
+    transcribeAudio,
+    onRestore,
+    beforeClear,
+    onDraftSaved,
+    onError,
+}: DraftRecoveryOptions): DraftRecoveryHook {
+    const [draft, setDraft] = useState<RecoverableDraft | null>(null);
+    // Timeline second from which a restored draft still needs transcribing
+    const [pendingTail, setPendingTail] = useState<number | null>(null);
+    const isActive = active || pendingTail !== null;
+
+    const foundRef = useRef<{ draft: DraftRecord; audio: Float32Array } | null>(null);
+    const startedRef = useRef(false);
+    // Timeline samples already written to the draft
+    const checkpointedRef = useRef(0);
+    // Checkpoints are written in order, and the draft is only cleared after the last one
+    const chainRef = useRef<Promise<void>>(Promise.resolve());
+
+    // The checkpoint timer outlives renders, so read everything through refs
+    const latestRef = useRef({ model, text, segments, readRecording, getCommittedEnd, getSessionInfo, transcribeAudio, onRestore, beforeClear, onDraftSaved, onError });
+    latestRef.current = { model, text, segments, readRecording, getCommittedEnd, getSessionInfo, transcribeAudio, onRestore, beforeClear, onDraftSaved, onError };
+
+    // Look for a draft left behind by a previous run
+    useEffect(() => {
+        let cancelled = false;
+        readDraft()
+            .then(found => {
+                if (cancelled || !found) return;
+                const { draft: record, audio } = found;
+                const duration = audio.length / WHISPER_SAMPLE_RATE;
+                if (!record.text.trim() && audio.length === 0) {
+                    clearDraft().catch(() => undefined);
+                    return;
+                }
+                foundRef.current = found;
+                const preview = record.text.trim();
+                setDraft({
+                    updatedAt: record.updatedAt,
+                    title: record.title,
+                    duration,
+                    untranscribed: Math.max(0, duration - record.committedEnd),
+                    preview: preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH)}...` : preview,
+                });
+            })
+            .catch(err => console.warn('[Draft] Could not read the recovery draft', err));
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const checkpoint = useCallback(() => {
+        const latest = latestRef.current;
+        const restart = !startedRef.current;
+        if (restart) checkpointedRef.current = 0;
+        startedRef.current = true;
+
+        const chunk = latest.readRecording(checkpointedRef.current / WHISPER_SAMPLE_RATE);
+        checkpointedRef.current += chunk.length;
+        const session = latest.getSessionInfo();
+        const record: DraftRecord = {
+            sessionId: session?.id ?? null,
+            title: session?.title ?? null,
+            createdAt: session?.createdAt ?? Date.now(),
+            updatedAt: Date.now(),
+            text: latest.text,
+            segments: latest.segments,
+            committedEnd: latest.getCommittedEnd(),
+            samples: checkpointedRef.current,
+        };
+
+        chainRef.current = chainRef.current
+            .then(() => checkpointDraft(record, chunk, restart))
+            .catch(err => console.warn('[Draft] Checkpoint failed', err));
+    }, []);
+
+    useEffect(() => {
+        if (!isActive) return;
+        // Starting a new draft replaces one that was offered and not answered, so that one is
+        // saved to the library first; the checkpoints queue up behind it
+        const unanswered = foundRef.current;
+        foundRef.current = null;
+        setDraft(null);
+        if (unanswered) {
+            chainRef.current = chainRef.current
+                .then(() => saveDraftAsSession(unanswered, latestRef.current.model))
+                .then(title => latestRef.current.onDraftSaved?.(title))
+                .catch(err => latestRef.current.onError?.(`Could not keep the interrupted recording: ${(err as Error).message}`));
+        }
+        checkpoint();
+        const interval = setInterval(checkpoint, CHECKPOINT_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [isActive, checkpoint]);
+
+    // Everything is transcribed: hand over to the session and drop the draft
+    useEffect(() => {
+        if (isActive || !startedRef.current) return;
+        startedRef.current = false;
+        chainRef.current = chainRef.current
+            .then(() => latestRef.current.beforeClear())
+            .then(() => clearDraft())
+            .catch(err => console.warn('[Draft] Could not clear the recovery draft', err));
+    }, [isActive]);
+
+    // Transcribe what the crash cut off once the model is ready
+    useEffect(() => {
+        if (pendingTail === null) return;
+        const { readRecording: read, transcribeAudio: transcribe, getCommittedEnd: committedEnd } = latestRef.current;
+        // After an interruption (e.g. a model switch) pick up where the committed text ends
+        const start = Math.max(pendingTail, committedEnd());
+        const tail = read(start);
+        if (tail.length > 0 && !isModelLoaded) return;
+        let cancelled = false;
+
+        const finish = async () => {
+            const chunks = splitAtQuietPoints(tail, WHISPER_SAMPLE_RATE, MAX_CHUNK_SECONDS, 3, WINDOW_OVERLAP_SECONDS);
+            const overlapLength = Math.floor(WINDOW_OVERLAP_SECONDS * WHISPER_SAMPLE_RATE);
+            let chunkEnd = 0;
+
+            try {
+                for (let i = 0; i < chunks.length && !cancelled; i++) {
+                    const chunkStart = i > 0 ? chunkEnd - overlapLength : 0;
+                    chunkEnd = chunkStart + chunks[i].length;
+                    await transcribe(chunks[i], WHISPER_SAMPLE_RATE, {
+                        overlapSeconds: i > 0 ? WINDOW_OVERLAP_SECONDS : 0,
+                        offsetSeconds: start + chunkStart / WHISPER_SAMPLE_RATE,
+                        source: 'mic',
+                    });
+                }
+            } catch (err) {
+                if (!(err instanceof DOMException && err.name === 'AbortError')) {
+                    latestRef.current.onError?.(`Could not finish the recovered recording: ${(err as Error).message}`);
+                }
+            } finally {
+                if (!cancelled) setPendingTail(null);
+            }
+        };
+
+        finish();
+        return () => {
+            cancelled = true;
+        };
+    }, [pendingTail, isModelLoaded]);
+
+    const restore = useCallback(() => {
+        const found = foundRef.current;
+        if (!found) return;
+        foundRef.current = null;
+        setDraft(null);
+        latestRef.current.onRestore(found.draft, found.audio);
+        // Still a draft until the tail is transcribed; the next checkpoint rewrites it from the restored timeline
+        startedRef.current = false;
+        setPendingTail(found.draft.committedEnd);
+    }, []);
+
+    const discard = useCallback(() => {
+        foundRef.current = null;
+        setDraft(null);
+        chainRef.current = chainRef.current
+            .then(() => clearDraft())
+            .catch(err => console.warn('[Draft] Could not discard the recovery draft', err));
+    }, []);
+
+    return {
+        draft,
+        isFinishing: pendingTail !== null,
+        restore,
+        discard,
+    };
+}
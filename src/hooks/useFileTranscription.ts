@@ -0,0 +1,169 @@
+import { useState, useRef, useCallback } from 'react';
+import { WHISPER_SAMPLE_RATE, decodeAudioFile, splitAtQuietPoints } from '@/lib/audioProcessing';
+import { WINDOW_OVERLAP_SECONDS } from '@/lib/transcriptStitching';
+import { TranscribeAudioOptions } from './useTranscribe';
+
+export type FileJobStatus = 'queued' | 'decoding' | 'transcribing' | 'done' | 'error' | 'cancelled';
+
+export interface FileJob {
+    id: string;
+    name: string;
+    size: number;
+    status: FileJobStatus;
+    // 0..1 across the file's chunks
+    progress: number;
+    chunksDone: number;
+    chunksTotal: number;
+    duration?: number;
+    error?: string;
+}
+
+interface FileTranscriptionHook {
+    jobs: FileJob[];
+    isProcessing: boolean;
+    addFiles: (files: File[]) => void;
+    cancelJob: (id: string) => void;
+    cancelAll: () => void;
+    clearFinished: () => void;
+}
+
+// Whisper's window is 30s; leave headroom so the cut can move to a quiet spot and chunks can overlap
+const MAX_CHUNK_SECONDS = 28;
+
+/**
+ * Queues uploaded audio/video files and feeds them, one chunk at a time, through
+ * the same transcription path as the microphone.
+ */
+export function useFileTranscription(
+    transcribeAudio: (audio: Float32Array, sampleRate: number, options?: TranscribeAudioOptions) => Promise<string>,
+    appendRecording: (audio: Float32Array) => number
+): FileTranscriptionHook {
+    const [jobs, setJobs] = useState<FileJob[]>([]);
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const queueRef = useRef<{ id: string; file: File }[]>([]);
+    const cancelledRef = useRef(new Set<string>());
+    const runningRef = useRef(false);
+    // Aborts the chunk of the file currently in the worker
+    const activeRef = useRef<{ id: string; controller: AbortController } | null>(null);
+
+    // The queue loop outlives renders, so always call the latest transcriber
+    const transcribeRef = useRef(transcribeAudio);
+    transcribeRef.current = transcribeAudio;
+    const appendRecordingRef = useRef(appendRecording);
+    appendRecordingRef.current = appendRecording;
+
+    const updateJob = useCallback((id: string, patch: Partial<FileJob>) => {
+        setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...patch } : job)));
+    }, []);
+
+    const runQueue = useCallback(async () => {
+        if (runningRef.current) return;
+        runningRef.current = true;
+        setIsProcessing(true);
+
+        while (queueRef.current.length > 0) {
+            const { id, file } = queueRef.current.shift()!;
+            if (cancelledRef.current.has(id)) continue;
+
+            const controller = new AbortController();
+            activeRef.current = { id, controller };
+
+            try {
+                updateJob(id, { status: 'decoding' });
+                const audio = await decodeAudioFile(file);
+                const chunks = splitAtQuietPoints(audio, WHISPER_SAMPLE_RATE, MAX_CHUNK_SECONDS, 3, WINDOW_OVERLAP_SECONDS);
+                const overlapLength = Math.floor(WINDOW_OVERLAP_SECONDS * WHISPER_SAMPLE_RATE);
+                // Kept with the session recording so the file can be played back and re-transcribed
+                const fileStart = appendRecordingRef.current(audio);
+                // Sample position in the file where the previous chunk ended
+                let chunkEnd = 0;
+
+                updateJob(id, {
+                    status: 'transcribing',
+                    chunksTotal: chunks.length,
+                    duration: audio.length / WHISPER_SAMPLE_RATE,
+                });
+
+                for (let i = 0; i < chunks.length; i++) {
+                    if (cancelledRef.current.has(id)) break;
+                    const chunkStart = i > 0 ? chunkEnd - overlapLength : 0;
+                    chunkEnd = chunkStart + chunks[i].length;
+                    await transcribeRef.current(chunks[i], WHISPER_SAMPLE_RATE, {
+                        signal: controller.signal,
+                        overlapSeconds: i > 0 ? WINDOW_OVERLAP_SECONDS : 0,
+                        offsetSeconds: fileStart + chunkStart / WHISPER_SAMPLE_RATE,
+                    });
+                    updateJob(id, { chunksDone: i + 1, progress: (i + 1) / chunks.length });
+                }
+
+                updateJob(id, cancelledRef.current.has(id) ? { status: 'cancelled' } : { status: 'done', progress: 1 });
+            } catch (err) {
+                if (err instanceof DOMException && err.name === 'AbortError') {
+                    updateJob(id, { status: 'cancelled' });
+                    continue;
+                }
+                console.error(`[Files] Failed to transcribe ${file.name}:`, err);
+                const message = err instanceof DOMException && err.name === 'EncodingError'
+                    ? 'Unsupported or corrupt audio format'
+                    : (err as Error).message;
+                updateJob(id, { status: 'error', error: message });
+            } finally {
+                activeRef.current = null;
+            }
+        }
+
+        runningRef.current = false;
+        setIsProcessing(false);
+    }, [updateJob]);
+
+    const addFiles = useCallback((files: File[]) => {
+        const added = files.map(file => ({ id: crypto.randomUUID(), file }));
+        if (added.length === 0) return;
+
+        setJobs(prev => [
+            ...prev,
+            ...added.map(({ id, file }) => ({
+                id,
+                name: file.name,
+                size: file.size,
+                status: 'queued' as const,
+                progress: 0,
+                chunksDone: 0,
+                chunksTotal: 0,
+            })),
+        ]);
+        queueRef.current.push(...added);
+        runQueue();
+    }, [runQueue]);
+
+    // Also drops the chunk already in the worker; text committed from earlier chunks stays
+    const cancelJob = useCallback((id: string) => {
+        cancelledRef.current.add(id);
+        if (activeRef.current?.id === id) activeRef.current.controller.abort();
+        setJobs(prev => prev.map(job =>
+            job.id === id && (job.status === 'queued' || job.status === 'decoding')
+                ? { ...job, status: 'cancelled' }
+                : job
+        ));
+    }, []);
+
+    const cancelAll = useCallback(() => {
+        queueRef.current.forEach(({ id }) => cancelledRef.current.add(id));
+        if (activeRef.current) {
+            cancelledRef.current.add(activeRef.current.id);
+            activeRef.current.controller.abort();
+        }
+        setJobs(prev => prev.map(job =>
+            job.status === 'queued' || job.status === 'decoding' || job.status === 'transcribing'
+                ? { ...job, status: 'cancelled' }
+                : job
+        ));
+    }, []);
+
+    const clearFinished = useCallback(() => {
+        setJobs(prev => prev.filter(job => job.status === 'queued' || job.status === 'decoding' || job.status === 'transcribing'));
+    }, []);
+
+    return { jobs, isProcessing, addFiles, cancelJob, cancelAll, clearFinished };
+}
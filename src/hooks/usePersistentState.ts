@@ -0,0 +1,36 @@
+import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+
+const STORAGE_PREFIX = 'voicerefine:';
+
+function readStoredValue<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(STORAGE_PREFIX + key);
+        if (raw === null) return fallback;
+
+        const parsed = JSON.parse(raw);
+        // Merge plain objects so settings added in later versions pick up their defaults
+        if (fallback && typeof fallback === 'object' && !Array.isArray(fallback)) {
+            return { ...fallback, ...parsed };
+        }
+        return parsed as T;
+    } catch {
+        return fallback;
+    }
+}
+
+/**
+ * useState that survives reloads by mirroring the value into localStorage.
+ */
+export function usePersistentState<T>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
+    const [value, setValue] = useState<T>(() => readStoredValue(key, initialValue));
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+        } catch (err) {
+            console.warn(`[usePersistentState] Could not persist "${key}"`, err);
+        }
+    }, [key, value]);
+
+    return [value, setValue];
+}
@@ -0,0 +1,295 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { WHISPER_SAMPLE_RATE, decodeAudioFile, encodeWav } from '@/lib/audioProcessing';
+import { SessionRecord, createSessionId, defaultSessionTitle, getSession, getSessionAudio, saveSession } from '@/lib/sessionStore';
+import { TranscriptSegment } from '@/lib/transcript';
+import { WhisperModelConfig } from '@/lib/whisperModels';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface SessionSnapshot {
+    text: string;
+    refinedText: string;
+    segments: TranscriptSegment[];
+    model: WhisperModelConfig;
+    recordingDuration: number;
+}
+
+interface SessionAutosaveOptions extends SessionSnapshot {
+    isRecording: boolean;
+    // Reads the whole 16kHz timeline; also valid while recording
+    readRecording: () => Float32Array;
+    // Samples in the timeline, read without copying it
+    getRecordingLength: () => number;
+    onRestore: (record: SessionRecord, audio: Float32Array | null) => void;
+    // Clears the editor for a new session
+    onReset: () => void;
+}
+
+export interface SessionInfo {
+    id: string;
+    title: string;
+    createdAt: number;
+}
+
+interface SessionAutosaveHook {
+    sessionId: string | null;
+    title: string | null;
+    status: SaveStatus;
+    lastSavedAt: number | null;
+    error: string | null;
+    isRestoring: boolean;
+    newSession: () => Promise<void>;
+    // Saves pending changes now, including recording audio
+    flush: () => Promise<void>;
+    // The stored session the editor is showing, read at call time
+    getSessionInfo: () => SessionInfo | null;
+    // Treats the editor's contents as this session (or a new one) without loading it from storage
+    adoptSession: (session: SessionInfo | null) => void;
+}
+
+// Text edits are saved once typing settles. Audio is re-encoded only when it has grown, and not
+// while recording: that would encode the whole session again on every save, and the draft
+// checkpoints already keep a recording in progress safe.
+const SAVE_DEBOUNCE_MS = 1500;
+
+/**
+ * Keeps the editor's session in IndexedDB. The open session's id lives in the `?session=` query
+ * parameter, so a reload (or a link from the session library) reopens it. A session is only
+ * created once there is something to keep.
+ */
+export function useSessionAutosave({
+    text,
+    refinedText,
+    segments,
+    model,
+    recordingDuration,
+    isRecording,
+    readRecording,
+    getRecordingLength,
+    onRestore,
+    onReset,
+}: SessionAutosaveOptions): SessionAutosaveHook {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const sessionParam = searchParams.get('session');
+
+    const [title, setTitle] = useState<string | null>(null);
+    const [status, setStatus] = useState<SaveStatus>('idle');
+    const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    // The session whose contents are in the editor, and what is already stored for it
+    const loadedRef = useRef<SessionInfo | null>(null);
+    const lastSavedRef = useRef<(SessionSnapshot & { audioLength: number }) | null>(null);
+    const restoringRef = useRef(false);
+    const mountedRef = useRef(true);
+    // Saves run one after another so an older snapshot never lands after a newer one
+    const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // Timers and listeners outlive renders, so saves read the latest values through refs
+    const snapshotRef = useRef<SessionSnapshot>({ text, refinedText, segments, model, recordingDuration });
+    snapshotRef.current = { text, refinedText, segments, model, recordingDuration };
+    const readRecordingRef = useRef(readRecording);
+    readRecordingRef.current = readRecording;
+    const getRecordingLengthRef = useRef(getRecordingLength);
+    getRecordingLengthRef.current = getRecordingLength;
+    const isRecordingRef = useRef(isRecording);
+    isRecordingRef.current = isRecording;
+    const onRestoreRef = useRef(onRestore);
+    onRestoreRef.current = onRestore;
+    const onResetRef = useRef(onReset);
+    onResetRef.current = onReset;
+
+    // `withAudio` defaults to writing audio unless a recording is in progress
+    const save = useCallback((withAudio = !isRecordingRef.current) => {
+        // The snapshot is taken now; only the write waits its turn
+        if (restoringRef.current) return saveChainRef.current;
+        const snapshot = snapshotRef.current;
+        const audioLength = getRecordingLengthRef.current();
+        const last = lastSavedRef.current;
+        const audioChanged = !last || last.audioLength !== audioLength;
+        const unchanged = last
+            && last.text === snapshot.text
+            && last.refinedText === snapshot.refinedText
+            && last.segments === snapshot.segments
+            && last.model === snapshot.model
+            && (!audioChanged || !withAudio);
+        const isEmpty = !snapshot.text.trim() && snapshot.segments.length === 0 && audioLength === 0;
+        if (unchanged || (isEmpty && !loadedRef.current)) return saveChainRef.current;
+
+        if (!loadedRef.current) {
+            const now = new Date();
+            loadedRef.current = { id: createSessionId(), title: defaultSessionTitle(now), createdAt: now.getTime() };
+            setTitle(loadedRef.current.title);
+            if (mountedRef.current) setSearchParams({ session: loadedRef.current.id }, { replace: true });
+        }
+        const session = loadedRef.current;
+        const writeAudio = withAudio && audioChanged;
+        const audio = writeAudio ? readRecordingRef.current() : null;
+        // The stored duration always describes the stored audio
+        const storedLength = writeAudio ? audio.length : last?.audioLength ?? 0;
+        lastSavedRef.current = { ...snapshot, audioLength: storedLength };
+
+        const record: SessionRecord = {
+            id: session.id,
+            title: session.title,
+            createdAt: session.createdAt,
+            updatedAt: Date.now(),
+            text: snapshot.text,
+            refinedText: snapshot.refinedText,
+            segments: snapshot.segments,
+            model: snapshot.model,
+            duration: storedLength / WHISPER_SAMPLE_RATE,
+        };
+
+        const write = async () => {
+            setStatus('saving');
+            try {
+                // Keep a title changed from the library while this session was open
+                const stored = await getSession(session.id);
+                if (stored && stored.title !== session.title) {
+                    session.title = record.title = stored.title;
+                    setTitle(stored.title);
+                }
+                await saveSession(record, writeAudio ? (audio.length > 0 ? encodeWav(audio, WHISPER_SAMPLE_RATE) : null) : undefined);
+                setStatus('saved');
+                setLastSavedAt(record.updatedAt);
+                setError(null);
+            } catch (err) {
+                // Forget what was written so the next change retries the whole snapshot
+                lastSavedRef.current = null;
+                setStatus('error');
+                setError(err instanceof Error ? err.message : String(err));
+            }
+        };
+        saveChainRef.current = saveChainRef.current.then(write);
+        return saveChainRef.current;
+    }, [setSearchParams]);
+
+    const flush = useCallback(() => {
+        if (timerRef.current) {
+            clearTimeout(timerRef.current);
+            timerRef.current = null;
+        }
+        return save(true);
+    }, [save]);
+
+    // Open the session named in the URL
+    useEffect(() => {
+        if (!sessionParam || loadedRef.current?.id === sessionParam) return;
+        let cancelled = false;
+
+        const restore = async () => {
+            // Keep pending edits to the session being left
+            flush();
+            restoringRef.current = true;
+            setIsRestoring(true);
+            try {
+                const [record, blob] = await Promise.all([getSession(sessionParam), getSessionAudio(sessionParam)]);
+                if (cancelled) return;
+                if (!record) {
+                    setError('That session no longer exists');
+                    setSearchParams({}, { replace: true });
+                    return;
+                }
+                const audio = blob ? await decodeAudioFile(blob) : null;
+                // Also skip it if the editor adopted this session meanwhile (e.g. from a recovered draft)
+                if (cancelled || loadedRef.current?.id === sessionParam) return;
+                loadedRef.current = { id: record.id, title: record.title, createdAt: record.createdAt };
+                setTitle(record.title);
+                setLastSavedAt(record.updatedAt);
+                setStatus('saved');
+                onRestoreRef.current(record, audio);
+                // What the editor now shows is what is stored; refinedText is recomputed, so it may differ
+                lastSavedRef.current = {
+                    text: record.text,
+                    refinedText: record.refinedText,
+                    segments: record.segments,
+                    model: snapshotRef.current.model,
+                    recordingDuration: record.duration,
+                    audioLength: audio?.length ?? 0,
+                };
+            } catch (err) {
+                if (!cancelled) {
+                    setStatus('error');
+                    setError(err instanceof Error ? err.message : String(err));
+                }
+            } finally {
+                restoringRef.current = false;
+                if (!cancelled) setIsRestoring(false);
+            }
+        };
+
+        restore();
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionParam, setSearchParams, flush]);
+
+    // Debounced save whenever the content changes
+    useEffect(() => {
+        if (restoringRef.current) return;
+        if (timerRef.current) clearTimeout(timerRef.current);
+        timerRef.current = setTimeout(() => {
+            timerRef.current = null;
+            save();
+        }, SAVE_DEBOUNCE_MS);
+    }, [text, refinedText, segments, recordingDuration, model, isRecording, save]);
+
+    // Best effort when the tab is hidden or the editor unmounts (e.g. navigating to the library)
+    useEffect(() => {
+        // Hiding the tab mid-recording is common, so that leaves the audio to the draft checkpoints
+        const handleVisibility = () => {
+            if (document.visibilityState !== 'hidden') return;
+            if (timerRef.current) {
+                clearTimeout(timerRef.current);
+                timerRef.current = null;
+            }
+            save();
+        };
+        mountedRef.current = true;
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => {
+            mountedRef.current = false;
+            document.removeEventListener('visibilitychange', handleVisibility);
+            flush();
+        };
+    }, [flush, save]);
+
+    const newSession = useCallback(async () => {
+        await flush();
+        onResetRef.current();
+        loadedRef.current = null;
+        lastSavedRef.current = null;
+        setTitle(null);
+        setStatus('idle');
+        setLastSavedAt(null);
+        setSearchParams({}, { replace: false });
+    }, [flush, setSearchParams]);
+
+    const getSessionInfo = useCallback(() => loadedRef.current && { ...loadedRef.current }, []);
+
+    const adoptSession = useCallback((session: SessionInfo | null) => {
+        loadedRef.current = session && { ...session };
+        // Nothing of the adopted contents is known to be stored
+        lastSavedRef.current = null;
+        setTitle(session?.title ?? null);
+        setStatus('idle');
+        setSearchParams(session ? { session: session.id } : {}, { replace: true });
+    }, [setSearchParams]);
+
+    return {
+        sessionId: loadedRef.current?.id ?? null,
+        title,
+        status,
+        lastSavedAt,
+        error,
+        isRestoring,
+        newSession,
+        flush,
+        getSessionInfo,
+        adoptSession,
+    };
+}
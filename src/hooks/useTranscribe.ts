@@ -1,5 +1,28 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import Worker from '../worker?worker';
+import captureWorkletUrl from '../captureWorklet?worker&url';
+import { usePersistentState } from './usePersistentState';
+import {
+    AUTO_DETECT_LANGUAGE,
+    DEFAULT_MODEL_CONFIG,
+    DEFAULT_TRANSCRIPTION_OPTIONS,
+    TranscriptionOptions,
+    WhisperModelConfig,
+    isSameModelConfig,
+} from '@/lib/whisperModels';
+import { DEFAULT_VAD_CONFIG, VadConfig, VadSegment, VadStats, VoiceActivitySegmenter, vadBufferCapacity } from '@/lib/vad';
+import { AudioRingBuffer } from '@/lib/ringBuffer';
+import { PagedAudioBuffer } from '@/lib/pagedAudioBuffer';
+import { SessionAudio, WEBM_OPUS_MIME_TYPE, isCompressedCaptureSupported } from '@/lib/sessionArchive';
+import { WHISPER_SAMPLE_RATE, normalizePeak, resampleTo16k } from '@/lib/audioProcessing';
+import { TimedWord, WINDOW_OVERLAP_SECONDS, chunksToWords, stitchOverlap } from '@/lib/transcriptStitching';
+import { filterHallucinations } from '@/lib/hallucinationFilter';
+import { attachConfidence } from '@/lib/wordConfidence';
+import { TranscriptSegment, alignSegmentWords, buildSegments } from '@/lib/transcript';
+import { JobSource, TranscribeJob, TranscriptionResult, WorkerRequest, WorkerResponse, createJobId } from '@/lib/workerProtocol';
+import { VocabularyEntry, compileVocabulary } from '@/lib/vocabulary';
+import { VoiceCommand, applyVoiceCommandsToSegment } from '@/lib/voiceCommands';
+import { DEFAULT_PROMPT_SETTINGS, PromptSettings, buildDecoderPrompt } from '@/lib/decoderPrompt';
 
 interface DebugLog {
     timestamp: number;
@@ -16,44 +39,230 @@ interface AudioStats {
     gainApplied?: number;
 }
 
+interface DownloadSize {
+    loaded: number;
+    total: number;
+}
+
 interface TranscribeHook {
     isModelLoading: boolean;
     isModelLoaded: boolean;
     isRecording: boolean;
     isTranscribing: boolean;
-    transcription: string;
+    partialTranscription: string;
+    segments: TranscriptSegment[];
+    // Seconds of session audio retained for playback and re-transcription
+    recordingDuration: number;
     progress: number;
+    downloadSize: DownloadSize | null;
+    modelConfig: WhisperModelConfig;
+    transcriptionOptions: TranscriptionOptions;
+    detectedLanguage: string | null;
     error: string | null;
     logs: DebugLog[];
     audioStats: AudioStats | null;
     audioStream: MediaStream | null;
+    transcribeAudio: (audio: Float32Array, sampleRate: number, options?: TranscribeAudioOptions) => Promise<string>;
+    appendRecording: (audio: Float32Array) => number;
+    readRecording: (start?: number, end?: number) => Float32Array;
+    // Samples in the session recording so far, without copying it
+    getRecordingLength: () => number;
+    retranscribeRange: (start: number, end: number, model: WhisperModelConfig) => Promise<string>;
+    getSessionAudio: () => SessionAudio;
+    // Also record each take as WebM/Opus with MediaRecorder; applies from the next recording
+    compressedCapture: boolean;
+    setCompressedCapture: (enabled: boolean) => void;
+    // Initial prompt, and whether chunks are conditioned on it and the preceding transcript
+    promptSettings: PromptSettings;
+    setPromptSettings: (settings: PromptSettings) => void;
+    vadConfig: VadConfig;
+    vadStats: VadStats | null;
     startRecording: () => Promise<void>;
     stopRecording: () => void;
+    cancelTranscription: () => void;
     resetTranscription: () => void;
+    // Replaces the session with saved segments and timeline audio (16kHz). Audio after
+    // `committedEnd` (default: all of it) counts as not yet transcribed.
+    restoreTranscription: (segments: TranscriptSegment[], audio: Float32Array | null, committedEnd?: number) => void;
+    // Replaces word `index` of a segment with `replacement` (no text removes it); returns the updated segment
+    correctSegmentWord: (segmentId: string, index: number, replacement: string) => TranscriptSegment | null;
+    // Seconds of the timeline that have been transcribed and committed
+    getCommittedEnd: () => number;
+    selectModel: (config: WhisperModelConfig) => void;
+    reloadModel: () => void;
+    abortDownload: () => void;
+    setTranscriptionOptions: (options: TranscriptionOptions) => void;
     clearLogs: () => void;
 }
 
-export function useTranscribe(): TranscribeHook {
+// The capture worklet already delivers 16kHz mono; its name must match registerProcessor in captureWorklet.ts
+const CAPTURE_PROCESSOR_NAME = 'capture-processor';
+const CAPTURE_SAMPLE_RATE = WHISPER_SAMPLE_RATE;
+const VAD_STATS_INTERVAL_MS = 250;
+// How often the open segment is re-decoded for interim text, and the least audio worth decoding
+const PARTIAL_INTERVAL_MS = 1500;
+const MIN_PARTIAL_SAMPLES = CAPTURE_SAMPLE_RATE;
+const OVERLAP_SAMPLES = WINDOW_OVERLAP_SECONDS * CAPTURE_SAMPLE_RATE;
+const NO_VOCABULARY: VocabularyEntry[] = [];
+
+export interface TranscribeAudioOptions {
+    signal?: AbortSignal;
+    // Leading seconds that repeat the end of the previous chunk, to be stitched away
+    overlapSeconds?: number;
+    // Where the chunk starts on the transcript timeline (see appendRecording)
+    offsetSeconds?: number;
+    // Defaults to 'file'; recovered microphone audio keeps 'mic'
+    source?: JobSource;
+}
+
+interface TranscribeHookOptions {
+    // Called once per final result, strictly in the order the audio was submitted
+    onCommit?: (text: string, result: TranscriptionResult, source: JobSource) => void;
+    // Called when a re-transcribed range replaces segments
+    onReplace?: (previous: TranscriptSegment[], next: TranscriptSegment[]) => void;
+    // User dictionary applied to each result before it is committed
+    vocabulary?: VocabularyEntry[];
+    // Spoken commands written out of microphone segments, so they read like the editor text
+    voiceCommands?: VoiceCommand[] | null;
+}
+
+interface TimeRange {
+    start: number;
+    end: number;
+}
+
+interface JobWaiter {
+    resolve: (text: string) => void;
+    reject: (err: Error) => void;
+}
+
+interface SendOptions {
+    // Interim snapshot of a segment that is still growing
+    partial?: boolean;
+    // Capture-buffer position of the segment, echoed back by the worker
+    segmentStart?: number;
+    source?: JobSource;
+    // Settled when the job's result is committed
+    waiter?: JobWaiter;
+    signal?: AbortSignal;
+    overlapSeconds?: number;
+    offsetSeconds?: number;
+    model?: WhisperModelConfig;
+    // Replace the segments in this range instead of appending
+    replace?: TimeRange;
+}
+
+interface PendingJob {
+    seq: number;
+    waiter?: JobWaiter;
+    source: JobSource;
+    overlapSeconds: number;
+    offsetSeconds: number;
+    // Where the job's audio window ends on the timeline
+    endSeconds: number;
+    replace?: TimeRange;
+    // Applied by peak normalization, to get back to the captured level; set once resampled
+    gain?: number;
+}
+
+// A final job whose result (or failure) is waiting for every earlier seq to commit
+interface SettledJob {
+    id: string;
+    result?: TranscriptionResult;
+    error?: string;
+    cancelled?: boolean;
+}
+
+function cancelledError(): DOMException {
+    return new DOMException('Transcription cancelled', 'AbortError');
+}
+
+export function useTranscribe({ onCommit, onReplace, vocabulary = NO_VOCABULARY, voiceCommands = null }: TranscribeHookOptions = {}): TranscribeHook {
     const [isModelLoading, setIsModelLoading] = useState(false);
     const [isModelLoaded, setIsModelLoaded] = useState(false);
     const [isRecording, setIsRecording] = useState(false);
     const [isTranscribing, setIsTranscribing] = useState(false);
-    const [transcription, setTranscription] = useState('');
+    const [partialTranscription, setPartialTranscription] = useState('');
+    const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+    const [recordingDuration, setRecordingDuration] = useState(0);
     const [progress, setProgress] = useState(0);
+    const [downloadSize, setDownloadSize] = useState<DownloadSize | null>(null);
+    const [modelConfig, setModelConfig] = usePersistentState<WhisperModelConfig>('model', DEFAULT_MODEL_CONFIG);
+    const [transcriptionOptions, setTranscriptionOptions] = usePersistentState<TranscriptionOptions>('transcription-options', DEFAULT_TRANSCRIPTION_OPTIONS);
+    const [compressedCapture, setCompressedCapture] = usePersistentState('compressed-capture', false);
+    const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [logs, setLogs] = useState<DebugLog[]>([]);
     const [audioStats, setAudioStats] = useState<AudioStats | null>(null);
     const [audioStream, setAudioStream] = useState<MediaStream | null>(null);
+    const [vadStats, setVadStats] = useState<VadStats | null>(null);
 
     const workerRef = useRef<Worker | null>(null);
+    const modelConfigRef = useRef(modelConfig);
+    modelConfigRef.current = modelConfig;
+    const transcriptionOptionsRef = useRef(transcriptionOptions);
+    transcriptionOptionsRef.current = transcriptionOptions;
+    const [promptSettings, setPromptSettings] = usePersistentState<PromptSettings>('prompt-settings', DEFAULT_PROMPT_SETTINGS);
+    const promptSettingsRef = useRef(promptSettings);
+    promptSettingsRef.current = promptSettings;
     const audioContextRef = useRef<AudioContext | null>(null);
     const mediaStreamRef = useRef<MediaStream | null>(null);
     const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-    const scriptNodeRef = useRef<ScriptProcessorNode | null>(null);
-
-    // Buffer to hold audio samples until we have enough to send (approx 4 seconds)
-    const audioBufferRef = useRef<Float32Array>(new Float32Array(0));
-    const CHUNK_DURATION_SEC = 4;
+    const workletNodeRef = useRef<AudioWorkletNode | null>(null);
+
+    // Captured 16kHz samples, shared by the VAD and the stop-flush path
+    const captureBufferRef = useRef<AudioRingBuffer | null>(null);
+    // Splits the mic stream into utterances at natural pauses
+    const vadRef = useRef<VoiceActivitySegmenter | null>(null);
+    const lastVadStatsRef = useRef(0);
+    // End of the last segment sent; a segment starting right after it gets an overlapping window
+    const lastSegmentEndRef = useRef(-1);
+    // Set when recording is cancelled, so the open segment is dropped instead of flushed
+    const discardCaptureRef = useRef(false);
+
+    // Interim results: which segment the shown partial belongs to, and the newest committed one
+    const lastPartialSentRef = useRef(0);
+    const partialSegmentRef = useRef(-1);
+    const lastCommittedSegmentRef = useRef(-1);
+
+    // Final jobs in flight by id, and results parked until they can be committed in seq order.
+    // Seqs are never reset, so jobs from an earlier recording or file still commit in place.
+    const pendingJobsRef = useRef(new Map<string, PendingJob>());
+    const settledJobsRef = useRef(new Map<number, SettledJob>());
+    // Jobs cancelled here that the worker may still send, or have been sent, a result for.
+    // A cancelled job keeps its pending entry until its turn to commit, so that alone cannot tell.
+    const cancelledJobsRef = useRef(new Set<string>());
+    // The partial last sent, which cancelling everything also covers
+    const partialJobIdRef = useRef<string | null>(null);
+    const nextSeqRef = useRef(0);
+    const nextCommitSeqRef = useRef(0);
+    // Words of the last committed result, which the next overlapping window is stitched against
+    const lastWordsRef = useRef<TimedWord[]>([]);
+
+    // Every recording and uploaded file of the session, laid end to end; positions in it
+    // are the transcript timeline
+    const recordingRef = useRef(new PagedAudioBuffer(CAPTURE_SAMPLE_RATE));
+    // Where the current recording starts in it (samples)
+    const recordingStartRef = useRef(0);
+    // Timeline audio before this point (seconds) has been transcribed and committed
+    const committedEndRef = useRef(0);
+    // Per-recording archive copies: device-rate mono before any processing, and optional WebM/Opus
+    const rawTakesRef = useRef<PagedAudioBuffer[]>([]);
+    const compressedTakesRef = useRef<Blob[]>([]);
+    const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+    const compressedCaptureRef = useRef(compressedCapture);
+    compressedCaptureRef.current = compressedCapture;
+    const onCommitRef = useRef(onCommit);
+    onCommitRef.current = onCommit;
+    const onReplaceRef = useRef(onReplace);
+    onReplaceRef.current = onReplace;
+    const applyVocabulary = useMemo(() => compileVocabulary(vocabulary), [vocabulary]);
+    const applyVocabularyRef = useRef(applyVocabulary);
+    applyVocabularyRef.current = applyVocabulary;
+    const voiceCommandsRef = useRef(voiceCommands);
+    voiceCommandsRef.current = voiceCommands;
+    // Mirrors `segments` so commits can see what they replace without waiting for a render
+    const segmentsRef = useRef<TranscriptSegment[]>([]);
 
     const addLog = useCallback((message: string, type: DebugLog['type'] = 'info', data?: any) => {
         const timestamp = Date.now();
@@ -61,120 +270,404 @@ export function useTranscribe(): TranscribeHook {
         setLogs(prev => [...prev, { timestamp, message, type, data }].slice(-50));
     }, []);
 
+    const updateSegments = useCallback((update: (prev: TranscriptSegment[]) => TranscriptSegment[]) => {
+        segmentsRef.current = update(segmentsRef.current);
+        setSegments(segmentsRef.current);
+    }, []);
+
+    // Parks a finished final job, then commits every result whose predecessors are all in
+    const settleJob = useCallback((seq: number, job: SettledJob) => {
+        // Late results for jobs that were cancelled (and so already settled) are dropped
+        if (!pendingJobsRef.current.has(job.id)) return;
+        if (!job.cancelled && cancelledJobsRef.current.delete(job.id)) return;
+        settledJobsRef.current.set(seq, job);
+
+        while (settledJobsRef.current.has(nextCommitSeqRef.current)) {
+            const { id, result, error, cancelled } = settledJobsRef.current.get(nextCommitSeqRef.current)!;
+            settledJobsRef.current.delete(nextCommitSeqRef.current);
+            nextCommitSeqRef.current++;
+
+            const { waiter, source, overlapSeconds, offsetSeconds, endSeconds, replace, gain } = pendingJobsRef.current.get(id)!;
+            pendingJobsRef.current.delete(id);
+
+            if (cancelled || !result) {
+                // Nothing to stitch the next window against
+                lastWordsRef.current = [];
+                waiter?.reject(cancelled ? cancelledError() : new Error(error ?? 'Transcription failed'));
+                continue;
+            }
+
+            const filtered = filterHallucinations(result, {
+                level: result.level && gain
+                    ? { peak: result.level.peak / gain, average: result.level.average / gain }
+                    : undefined,
+                previousText: replace ? undefined : lastWordsRef.current.map(word => word.text).join(' '),
+            });
+            for (const { reason, text, detail } of filtered.suppressed) {
+                addLog(`Chunk #${seq}: suppressed ${reason} "${text}" (${detail})`, 'info');
+            }
+
+            let text = filtered.result.text.trim();
+            const words = attachConfidence(chunksToWords(filtered.result.chunks, text, filtered.result.duration), filtered.result.words);
+            // Stitching compares raw words, so the dictionary only touches what gets committed
+            const correct = applyVocabularyRef.current;
+            const commands = voiceCommandsRef.current;
+            const correctSegments = (segments: TranscriptSegment[]) => segments.map(segment => {
+                let corrected = correct(segment.text);
+                // The editor carries out commands in dictation only, so segments follow suit
+                if (commands && segment.source === 'mic') corrected = applyVoiceCommandsToSegment(corrected, commands);
+                return { ...segment, text: corrected, words: segment.words && alignSegmentWords(segment.words, corrected) };
+            });
+
+            if (replace) {
+                const previous = segmentsRef.current.filter(s => s.start < replace.end && s.end > replace.start);
+                const next = correctSegments(buildSegments(words, offsetSeconds, id, previous[0]?.source ?? source));
+                text = correct(text);
+                updateSegments(prev => [...prev.filter(s => !previous.includes(s)), ...next].sort((a, b) => a.start - b.start));
+                addLog(`Re-transcribed ${previous.length} segment(s) as ${next.length}`, 'success');
+                onReplaceRef.current?.(previous, next);
+                waiter?.resolve(text);
+                continue;
+            }
+
+            let kept = words;
+            if (overlapSeconds > 0) {
+                const stitched = stitchOverlap(lastWordsRef.current, words, overlapSeconds);
+                kept = stitched.words;
+                text = kept.map(word => word.text).join(' ');
+                if (stitched.dropped > 0) {
+                    addLog(`Stitched chunk #${seq}: dropped ${stitched.dropped} repeated word(s) ${stitched.aligned ? 'by alignment' : 'by timing'}`);
+                }
+            }
+            lastWordsRef.current = words;
+            committedEndRef.current = Math.max(committedEndRef.current, endSeconds);
+
+            text = correct(text);
+            const committed = correctSegments(buildSegments(kept, offsetSeconds, id, source));
+            if (committed.length > 0) updateSegments(prev => [...prev, ...committed]);
+
+            if (result.language) setDetectedLanguage(result.language);
+            if (text) onCommitRef.current?.(text, result, source);
+            waiter?.resolve(text);
+        }
+
+        setIsTranscribing(pendingJobsRef.current.size > 0);
+    }, [addLog, updateSegments]);
+
+    // Drops the given final jobs (or all jobs, partials included) on both sides of the worker
+    const cancelJobs = useCallback((ids?: string[]) => {
+        const cancelled = Array.from(pendingJobsRef.current).filter(([id]) => !ids || ids.includes(id));
+        if (ids && cancelled.length === 0) return;
+
+        const request: WorkerRequest = { type: 'cancel', ids };
+        workerRef.current?.postMessage(request);
+        if (!ids && partialJobIdRef.current) cancelledJobsRef.current.add(partialJobIdRef.current);
+        for (const [id] of cancelled) cancelledJobsRef.current.add(id);
+        for (const [id, { seq }] of cancelled) {
+            settleJob(seq, { id, cancelled: true });
+        }
+    }, [settleJob]);
+
     // Initialize Worker
     useEffect(() => {
         if (!workerRef.current) {
             addLog('Initializing worker thread...', 'info');
             workerRef.current = new Worker();
 
-            workerRef.current.onmessage = (event) => {
-                const { type, data } = event.data;
+            workerRef.current.onmessage = (event: MessageEvent<WorkerResponse>) => {
+                const message = event.data;
 
-                switch (type) {
-                    case 'download':
-                        if (data.status === 'progress' && data.progress) {
-                            setProgress(Math.round(data.progress));
+                switch (message.type) {
+                    case 'download': {
+                        const { data } = message;
+                        if (data.status === 'progress' && data.totalBytes > 0) {
+                            setProgress(Math.round((data.totalLoaded / data.totalBytes) * 100));
+                            setDownloadSize({ loaded: data.totalLoaded, total: data.totalBytes });
                         }
                         break;
+                    }
                     case 'ready':
-                        addLog('Whisper model loaded and ready', 'success');
+                        // A slower load for a model the user has since switched away from
+                        if (!isSameModelConfig(message.data, modelConfigRef.current)) break;
+                        addLog(`Whisper model ${message.data.model} loaded and ready`, 'success');
                         setIsModelLoading(false);
                         setIsModelLoaded(true);
                         setProgress(100);
                         break;
+                    case 'download-aborted':
+                        if (!isSameModelConfig(message.data, modelConfigRef.current)) break;
+                        addLog(`Download of ${message.data.model} cancelled`, 'info');
+                        setIsModelLoading(false);
+                        setProgress(0);
+                        setDownloadSize(null);
+                        break;
+                    case 'cancelled':
+                        addLog(`Worker dropped ${message.ids.length} job(s)`, 'info');
+                        // None of these will send a result
+                        message.ids.forEach(id => cancelledJobsRef.current.delete(id));
+                        break;
+                    case 'partial':
+                        if (message.id === partialJobIdRef.current) partialJobIdRef.current = null;
+                        if (cancelledJobsRef.current.delete(message.id)) break;
+                        // Ignore guesses for a segment whose final text has already landed
+                        if (message.segmentStart === undefined || message.segmentStart <= lastCommittedSegmentRef.current) break;
+                        partialSegmentRef.current = message.segmentStart;
+                        // Nothing to judge the level by yet; only the text checks apply
+                        setPartialTranscription(applyVocabularyRef.current(filterHallucinations(message.data).result.text.trim()));
+                        break;
                     case 'complete':
-                        addLog('Transcription completed', 'success', data);
-                        setIsTranscribing(false);
-                        if (data && typeof data === 'object' && data.text) {
-                            setTranscription(data.text.trim());
-                        } else if (Array.isArray(data)) {
-                            const text = data.map((chunk: any) => chunk.text).join(' ');
-                            setTranscription(text.trim());
+                        addLog(`Transcription #${message.seq} completed`, 'success', message.data);
+                        if (message.segmentStart !== undefined) {
+                            lastCommittedSegmentRef.current = Math.max(lastCommittedSegmentRef.current, message.segmentStart);
+                            if (partialSegmentRef.current <= message.segmentStart) {
+                                setPartialTranscription('');
+                            }
                         }
+                        settleJob(message.seq, { id: message.id, result: message.data });
                         break;
                     case 'error':
-                        addLog('Worker reported error', 'error', data);
-                        setIsModelLoading(false);
-                        setIsTranscribing(false);
-                        setError(typeof data === 'string' ? data : 'Worker error occurred');
+                        addLog(message.id ? `Transcription #${message.seq} failed` : 'Worker reported error', 'error', message.data);
+                        setError(message.data || 'Worker error occurred');
+                        if (message.id && message.seq !== undefined) {
+                            settleJob(message.seq, { id: message.id, error: message.data });
+                        } else {
+                            setIsModelLoading(false);
+                        }
                         break;
                 }
             };
 
-            setIsModelLoading(true);
-            workerRef.current.postMessage({ type: 'configure' });
         }
 
         return () => {
             workerRef.current?.terminate();
             workerRef.current = null;
         };
+    }, [addLog, settleJob]);
+
+    const loadModel = useCallback((config: WhisperModelConfig) => {
+        if (!workerRef.current) return;
+
+        addLog(`Loading model ${config.model}${config.quantized ? ' (quantized)' : ''}...`, 'info');
+        setIsModelLoading(true);
+        setIsModelLoaded(false);
+        setError(null);
+        setProgress(0);
+        setDownloadSize(null);
+        const request: WorkerRequest = { type: 'configure', config };
+        workerRef.current.postMessage(request);
     }, [addLog]);
 
-    const normalizeAndSendAudio = useCallback(async (audioData: Float32Array) => {
+    // (Re)load the pipeline whenever the selected model changes
+    useEffect(() => {
+        loadModel(modelConfig);
+    }, [modelConfig, loadModel]);
+
+    // Retries the selected model, e.g. after its download was aborted
+    const reloadModel = useCallback(() => {
+        loadModel(modelConfigRef.current);
+    }, [loadModel]);
+
+    const abortDownload = useCallback(() => {
+        const request: WorkerRequest = { type: 'abort-download' };
+        workerRef.current?.postMessage(request);
+    }, []);
+
+    const selectModel = useCallback((config: WhisperModelConfig) => {
+        setModelConfig(prev => (isSameModelConfig(prev, config) ? prev : config));
+    }, [setModelConfig]);
+
+    const normalizeAndSendAudio = useCallback(async (audioData: Float32Array, sampleRate: number, options: SendOptions = {}): Promise<boolean> => {
         if (!workerRef.current || !isModelLoaded) {
             addLog('Cannot process: Worker not ready', 'error');
-            return;
+            return false;
         }
 
-        // Resample/Decimate to 16kHz if necessary
-        // Since AudioContext typically runs at 44.1/48kHz, we need to convert.
-        // We can do a quick offline render to do high quality resampling.
+        const id = createJobId();
+        const kind = options.partial ? 'partial' : 'final';
+        if (options.partial) partialJobIdRef.current = id;
+        // Taken before any await, so the seq reflects submission order even if resampling
+        // of an earlier chunk finishes later
+        const seq = options.partial ? nextSeqRef.current : nextSeqRef.current++;
+        if (!options.partial) {
+            pendingJobsRef.current.set(id, {
+                seq,
+                waiter: options.waiter,
+                source: options.source ?? 'mic',
+                overlapSeconds: options.overlapSeconds ?? 0,
+                offsetSeconds: options.offsetSeconds ?? 0,
+                endSeconds: (options.offsetSeconds ?? 0) + audioData.length / sampleRate,
+                replace: options.replace,
+            });
+            options.signal?.addEventListener('abort', () => cancelJobs([id]), { once: true });
+            setIsTranscribing(true);
+        }
 
         try {
-            const targetSampleRate = 16000;
-            const estimatedDuration = audioData.length / (audioContextRef.current?.sampleRate || 48000);
-
-            // Create offline context to resample
-            const offlineCtx = new OfflineAudioContext(1, Math.ceil(estimatedDuration * targetSampleRate), targetSampleRate);
-            const buffer = offlineCtx.createBuffer(1, audioData.length, audioContextRef.current?.sampleRate || 48000);
-            buffer.copyToChannel(audioData, 0);
-
-            const source = offlineCtx.createBufferSource();
-            source.buffer = buffer;
-            source.connect(offlineCtx.destination);
-            source.start();
-
-            const resampledBuffer = await offlineCtx.startRendering();
-            const resampledData = resampledBuffer.getChannelData(0);
-
-            // Normalization
-            let peak = 0;
-            for (let i = 0; i < resampledData.length; i++) {
-                const abs = Math.abs(resampledData[i]);
-                if (abs > peak) peak = abs;
-            }
-
-            let gain = 1.0;
-            if (peak > 0) {
-                gain = 0.95 / peak;
-            }
+            // Mic audio arrives from the capture worklet at 16kHz already; anything else
+            // gets a quick offline render to do high quality resampling.
+            const resampledData = await resampleTo16k(audioData, sampleRate);
+            const { audio: normalized, peak, gain } = normalizePeak(resampledData);
+            const { language, task } = transcriptionOptionsRef.current;
+
+            // Cancelled while resampling; the waiter has already been rejected
+            if (cancelledJobsRef.current.delete(id)) return false;
+            if (!options.partial && !pendingJobsRef.current.has(id)) return false;
+            const pending = pendingJobsRef.current.get(id);
+            if (pending) pending.gain = gain;
+
+            const job: TranscribeJob = {
+                id,
+                kind,
+                seq,
+                source: options.source ?? 'mic',
+                audio: normalized,
+                language: language === AUTO_DETECT_LANGUAGE ? null : language,
+                task,
+                segmentStart: options.segmentStart,
+                model: options.model,
+                // A re-transcribed range continues from the text before it
+                prompt: buildDecoderPrompt(promptSettingsRef.current, segmentsRef.current, options.replace?.start),
+            };
+            const request: WorkerRequest = { type: 'transcribe', job };
 
-            const normalized = new Float32Array(resampledData.length);
-            for (let i = 0; i < resampledData.length; i++) {
-                normalized[i] = resampledData[i] * gain;
+            if (options.partial) {
+                workerRef.current.postMessage(request);
+                return true;
             }
 
-            setIsTranscribing(true);
-            addLog(`Sending chunk to worker: ${normalized.length} samples (${(normalized.length / 16000).toFixed(2)}s)`);
-
-            workerRef.current.postMessage({
-                type: 'transcribe',
-                audio: normalized,
-                language: 'english'
+            setAudioStats({
+                sampleRate: WHISPER_SAMPLE_RATE,
+                channelCount: 1,
+                duration: normalized.length / WHISPER_SAMPLE_RATE,
+                peak,
+                gainApplied: gain,
             });
+            addLog(`Sending chunk #${seq} to worker: ${normalized.length} samples (${(normalized.length / WHISPER_SAMPLE_RATE).toFixed(2)}s)`);
+
+            workerRef.current.postMessage(request);
+            return true;
 
         } catch (err) {
             console.error('Resampling/Sending error:', err);
             addLog('Error preparing audio chunk', 'error', err);
+            // Release the seq so later results are not held back behind it
+            if (!options.partial) settleJob(seq, { id, error: 'Error preparing audio chunk' });
+            return false;
         }
 
-    }, [isModelLoaded, addLog]);
+    }, [isModelLoaded, addLog, settleJob, cancelJobs]);
+
+    // Sends one chunk and resolves with its text once it has been committed in order.
+    // Aborting `signal` cancels the chunk and rejects with an AbortError.
+    const transcribeAudio = useCallback((audioData: Float32Array, sampleRate: number, { signal, overlapSeconds, offsetSeconds, source = 'file' }: TranscribeAudioOptions = {}) => {
+        return new Promise<string>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(cancelledError());
+                return;
+            }
+            normalizeAndSendAudio(audioData, sampleRate, { source, waiter: { resolve, reject }, signal, overlapSeconds, offsetSeconds }).then(sent => {
+                // A no-op if the failed job's waiter was already rejected
+                if (!sent) reject(new Error('Transcription worker is not ready'));
+            });
+        });
+    }, [normalizeAndSendAudio]);
+
+    // Adds decoded file audio (16kHz) to the end of the session recording and returns where it starts, in seconds
+    const appendRecording = useCallback((audio: Float32Array) => {
+        const recording = recordingRef.current;
+        const start = recording.duration;
+        recording.append(audio);
+        setRecordingDuration(recording.duration);
+        return start;
+    }, []);
+
+    // Rounded, so seconds computed as samples / 16000 read back exactly those samples
+    const readRecording = useCallback((start = 0, end = Infinity) => {
+        return recordingRef.current.read(Math.round(start * CAPTURE_SAMPLE_RATE), Math.round(end * CAPTURE_SAMPLE_RATE));
+    }, []);
+
+    const getRecordingLength = useCallback(() => recordingRef.current.length, []);
+
+    const getCommittedEnd = useCallback(() => committedEndRef.current, []);
+
+    const getSessionAudio = useCallback((): SessionAudio => ({
+        rawTakes: rawTakesRef.current.map(take => ({ sampleRate: take.sampleRate, audio: take.read() })),
+        timeline: recordingRef.current.read(),
+        compressedTakes: [...compressedTakesRef.current],
+    }), []);
+
+    // Decodes part of the retained recording again, e.g. with a larger model, replacing its segments
+    const retranscribeRange = useCallback((start: number, end: number, model: WhisperModelConfig) => {
+        return new Promise<string>((resolve, reject) => {
+            addLog(`Re-transcribing ${start.toFixed(2)}s-${end.toFixed(2)}s with ${model.model}`);
+            normalizeAndSendAudio(readRecording(start, end), CAPTURE_SAMPLE_RATE, {
+                waiter: { resolve, reject },
+                offsetSeconds: start,
+                model,
+                replace: { start, end },
+            }).then(sent => {
+                if (!sent) reject(new Error('Transcription worker is not ready'));
+            });
+        });
+    }, [normalizeAndSendAudio, readRecording, addLog]);
+
+    // Sends a closed VAD segment. When it starts right where the previous one ended (a forced
+    // max-length split, or a very short pause) the window reaches back to overlap the cut.
+    const sendSegment = useCallback((segment: VadSegment, buffer: AudioRingBuffer) => {
+        const overlapStart = Math.max(segment.startSample - OVERLAP_SAMPLES, buffer.start);
+        const overlaps = lastSegmentEndRef.current > overlapStart;
+        lastSegmentEndRef.current = segment.endSample;
+
+        const windowStart = overlaps ? overlapStart : segment.startSample;
+        const audio = overlaps ? buffer.read(windowStart, segment.endSample) : segment.audio;
+        normalizeAndSendAudio(audio, CAPTURE_SAMPLE_RATE, {
+            segmentStart: segment.startSample,
+            overlapSeconds: (segment.startSample - windowStart) / CAPTURE_SAMPLE_RATE,
+            offsetSeconds: (recordingStartRef.current + windowStart) / CAPTURE_SAMPLE_RATE,
+        });
+    }, [normalizeAndSendAudio]);
+
+    // Runs once the worklet has handed over its last frame, so nothing captured is lost
+    const finishCapture = useCallback(() => {
+        // Process the utterance that was still open when recording stopped, unless it was cancelled
+        const remaining = discardCaptureRef.current ? null : vadRef.current?.flush();
+        discardCaptureRef.current = false;
+        if (remaining && captureBufferRef.current) {
+            addLog('Flushing remaining audio buffer...', 'info');
+            sendSegment(remaining, captureBufferRef.current);
+        } else {
+            // Nothing left to commit, so any interim text on screen will never be replaced
+            setPartialTranscription('');
+        }
+        if (vadRef.current) setVadStats(vadRef.current.getStats());
+        setRecordingDuration(recordingRef.current.duration);
+        vadRef.current = null;
+        captureBufferRef.current = null;
+
+        // Cleanup audio nodes
+        workletNodeRef.current?.port.close();
+        workletNodeRef.current?.disconnect();
+        sourceRef.current?.disconnect();
+        audioContextRef.current?.close();
+
+        workletNodeRef.current = null;
+        sourceRef.current = null;
+        audioContextRef.current = null;
+
+        addLog('Recording stopped', 'info');
+    }, [sendSegment, addLog]);
 
     const startRecording = useCallback(async () => {
-        setTranscription('');
+        setPartialTranscription('');
+        discardCaptureRef.current = false;
+        lastSegmentEndRef.current = -1;
+        recordingStartRef.current = recordingRef.current.length;
+        partialSegmentRef.current = -1;
+        lastCommittedSegmentRef.current = -1;
+        setDetectedLanguage(null);
         setError(null);
-        audioBufferRef.current = new Float32Array(0); // Clear buffer
+        setVadStats(null);
 
         try {
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -182,100 +675,209 @@ export function useTranscribe(): TranscribeHook {
             setAudioStream(stream);
 
             // Setup AudioContext
-            // We use standard context, usually 44.1k or 48k
+            // We use standard context, usually 44.1k or 48k; the worklet downsamples for us
             const context = new AudioContext();
             audioContextRef.current = context;
+            await context.audioWorklet.addModule(captureWorkletUrl);
 
             const source = context.createMediaStreamSource(stream);
             sourceRef.current = source;
 
-            // ScriptNode for processing
-            // bufferSize 4096 => ~85ms latency at 48k
-            const scriptNode = context.createScriptProcessor(4096, 1, 1);
-            scriptNodeRef.current = scriptNode;
-
-            scriptNode.onaudioprocess = (audioProcessingEvent) => {
-                const inputBuffer = audioProcessingEvent.inputBuffer;
-                const inputData = inputBuffer.getChannelData(0);
-
-                // Append to buffer
-                const newBuffer = new Float32Array(audioBufferRef.current.length + inputData.length);
-                newBuffer.set(audioBufferRef.current);
-                newBuffer.set(inputData, audioBufferRef.current.length);
-                audioBufferRef.current = newBuffer;
-
-                // Check if buffer is large enough for a chunk
-                // sampleRate * CHUNK_DURATION
-                const threshold = context.sampleRate * CHUNK_DURATION_SEC;
-                if (audioBufferRef.current.length >= threshold) {
-                    const chunkToSend = audioBufferRef.current;
-                    audioBufferRef.current = new Float32Array(0); // Reset buffer
-                    normalizeAndSendAudio(chunkToSend);
+            const captureBuffer = new AudioRingBuffer(vadBufferCapacity(CAPTURE_SAMPLE_RATE, {}, WINDOW_OVERLAP_SECONDS * 1000));
+            captureBufferRef.current = captureBuffer;
+            const recording = recordingRef.current;
+            // Raw takes hold 10s pages at the device rate
+            const rawTake = new PagedAudioBuffer(context.sampleRate, context.sampleRate * 10);
+            rawTakesRef.current.push(rawTake);
+            const vad = new VoiceActivitySegmenter(CAPTURE_SAMPLE_RATE, {}, captureBuffer);
+            vadRef.current = vad;
+
+            // No outputs: the node is a sink, so it is always processed and never
+            // routes the microphone to the speakers
+            const workletNode = new AudioWorkletNode(context, CAPTURE_PROCESSOR_NAME, {
+                numberOfInputs: 1,
+                numberOfOutputs: 0,
+                channelCount: 1,
+                channelCountMode: 'explicit',
+            });
+            workletNodeRef.current = workletNode;
+
+            workletNode.port.onmessage = (event: MessageEvent) => {
+                if (event.data.type === 'stopped') {
+                    finishCapture();
+                    return;
+                }
+                if (event.data.type !== 'frame') return;
+
+                recording.write(recordingStartRef.current + captureBuffer.end, event.data.samples);
+                if (event.data.raw) rawTake.append(event.data.raw);
+
+                // Only closed speech segments go to the worker; silence never leaves the VAD
+                for (const segment of vad.push(event.data.samples)) {
+                    addLog(`Speech segment closed (${segment.reason}): ${(segment.audio.length / CAPTURE_SAMPLE_RATE).toFixed(2)}s, ${segment.speechMs}ms speech`);
+                    sendSegment(segment, captureBuffer);
+                }
+
+                const now = performance.now();
+
+                // Periodically re-decode the segment still being spoken for interim text
+                const openStart = vad.openSegmentStart;
+                if (
+                    openStart !== null &&
+                    now - lastPartialSentRef.current > PARTIAL_INTERVAL_MS &&
+                    captureBuffer.end - openStart >= MIN_PARTIAL_SAMPLES
+                ) {
+                    lastPartialSentRef.current = now;
+                    normalizeAndSendAudio(captureBuffer.read(openStart), CAPTURE_SAMPLE_RATE, { partial: true, segmentStart: openStart });
+                }
+
+                // Throttle stats so the debug panel does not re-render on every frame
+                if (now - lastVadStatsRef.current > VAD_STATS_INTERVAL_MS) {
+                    lastVadStatsRef.current = now;
+                    setVadStats(vad.getStats());
                 }
             };
 
-            source.connect(scriptNode);
-            scriptNode.connect(context.destination); // Needed for Chrome to fire events
+            source.connect(workletNode);
+
+            if (compressedCaptureRef.current && isCompressedCaptureSupported()) {
+                const recorder = new MediaRecorder(stream, { mimeType: WEBM_OPUS_MIME_TYPE });
+                const parts: Blob[] = [];
+                recorder.ondataavailable = (e) => {
+                    if (e.data.size > 0) parts.push(e.data);
+                };
+                recorder.onstop = () => {
+                    compressedTakesRef.current.push(new Blob(parts, { type: WEBM_OPUS_MIME_TYPE }));
+                };
+                recorder.start(1000);
+                mediaRecorderRef.current = recorder;
+            }
 
-            addLog('Microphone access granted & streaming started', 'success');
+            addLog(`Microphone access granted & streaming started (${context.sampleRate}Hz -> ${CAPTURE_SAMPLE_RATE}Hz)`, 'success');
             setIsRecording(true);
 
         } catch (err) {
             console.error('Error accessing microphone:', err);
+            // Release anything acquired before the failure (e.g. the worklet module failed to load)
+            mediaRecorderRef.current = null;
+            mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+            mediaStreamRef.current = null;
+            setAudioStream(null);
+            audioContextRef.current?.close();
+            audioContextRef.current = null;
             setError('Could not access microphone');
             addLog('Microphone access failed', 'error', err);
         }
-    }, [normalizeAndSendAudio, addLog]);
+    }, [normalizeAndSendAudio, sendSegment, finishCapture, addLog]);
 
     const stopRecording = useCallback(() => {
-        if (mediaStreamRef.current) {
-            // Process remaining buffer
-            if (audioBufferRef.current.length > 0) {
-                addLog('Flushing remaining audio buffer...', 'info');
-                normalizeAndSendAudio(audioBufferRef.current);
-                audioBufferRef.current = new Float32Array(0);
-            }
+        if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
+        mediaRecorderRef.current = null;
 
+        if (mediaStreamRef.current) {
             // Stop tracks
             mediaStreamRef.current.getTracks().forEach(track => track.stop());
             mediaStreamRef.current = null;
             setAudioStream(null);
+            setIsRecording(false);
 
-            // Cleanup audio nodes
-            scriptNodeRef.current?.disconnect();
-            sourceRef.current?.disconnect();
-            audioContextRef.current?.close();
-
-            scriptNodeRef.current = null;
-            sourceRef.current = null;
-            audioContextRef.current = null;
+            // Ask the worklet for its partial frame; cleanup continues in finishCapture
+            if (workletNodeRef.current) {
+                workletNodeRef.current.port.postMessage({ type: 'stop' });
+            } else {
+                finishCapture();
+            }
+        }
+    }, [finishCapture]);
 
-            setIsRecording(false);
-            addLog('Recording stopped', 'info');
+    // Stops recording without flushing and drops every queued or running job
+    const cancelTranscription = useCallback(() => {
+        if (mediaStreamRef.current) {
+            discardCaptureRef.current = true;
+            stopRecording();
         }
-    }, [normalizeAndSendAudio, addLog]);
+        cancelJobs();
+        setPartialTranscription('');
+        addLog('Transcription cancelled', 'info');
+    }, [stopRecording, cancelJobs, addLog]);
 
     const resetTranscription = useCallback(() => {
-        setTranscription('');
+        cancelJobs();
+        updateSegments(() => []);
+        recordingRef.current.clear();
+        committedEndRef.current = 0;
+        rawTakesRef.current = [];
+        compressedTakesRef.current = [];
+        setRecordingDuration(0);
+        lastWordsRef.current = [];
+        setPartialTranscription('');
+        setDetectedLanguage(null);
         setError(null);
         setLogs([]);
         setAudioStats(null);
-    }, []);
+    }, [cancelJobs, updateSegments]);
+
+    const restoreTranscription = useCallback((saved: TranscriptSegment[], audio: Float32Array | null, committedEnd?: number) => {
+        resetTranscription();
+        if (audio) recordingRef.current.append(audio);
+        committedEndRef.current = committedEnd ?? recordingRef.current.duration;
+        setRecordingDuration(recordingRef.current.duration);
+        updateSegments(() => saved);
+    }, [resetTranscription, updateSegments]);
+
+    const correctSegmentWord = useCallback((segmentId: string, index: number, replacement: string) => {
+        const segment = segmentsRef.current.find(s => s.id === segmentId);
+        if (!segment) return null;
+
+        const words = alignSegmentWords(segment.words ?? [], segment.text);
+        // A corrected word has no score left to flag it by
+        const inserted = replacement.trim().split(/\s+/).filter(Boolean).map(text => ({ text }));
+        const nextWords = [...words.slice(0, index), ...inserted, ...words.slice(index + 1)];
+        const corrected: TranscriptSegment = { ...segment, text: nextWords.map(word => word.text).join(' '), words: nextWords };
+        updateSegments(prev => prev.map(s => (s.id === segmentId ? corrected : s)));
+        return corrected;
+    }, [updateSegments]);
 
     return {
         isModelLoading,
         isModelLoaded,
         isRecording,
         isTranscribing,
-        transcription,
+        partialTranscription,
+        segments,
+        recordingDuration,
         progress,
+        downloadSize,
+        modelConfig,
+        transcriptionOptions,
+        detectedLanguage,
         error,
         logs,
         audioStats,
         audioStream,
+        transcribeAudio,
+        appendRecording,
+        readRecording,
+        getRecordingLength,
+        retranscribeRange,
+        getSessionAudio,
+        compressedCapture,
+        setCompressedCapture,
+        promptSettings,
+        setPromptSettings,
+        vadConfig: vadRef.current?.config ?? DEFAULT_VAD_CONFIG,
+        vadStats,
         startRecording,
         stopRecording,
+        cancelTranscription,
         resetTranscription,
+        restoreTranscription,
+        correctSegmentWord,
+        getCommittedEnd,
+        selectModel,
+        reloadModel,
+        abortDownload,
+        setTranscriptionOptions,
         clearLogs: () => setLogs([])
     };
 }
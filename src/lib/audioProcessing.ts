@@ -0,0 +1,148 @@
+// Audio preparation shared by the microphone and file upload paths.
+// Whisper wants mono Float32 PCM at 16kHz, peak-normalized.
+
+export const WHISPER_SAMPLE_RATE = 16000;
+
+/**
+ * Resamples mono audio to 16kHz with an offline render. Audio already at 16kHz is returned as-is.
+ */
+export async function resampleTo16k(audio: Float32Array, sampleRate: number): Promise<Float32Array> {
+    if (sampleRate === WHISPER_SAMPLE_RATE) return audio;
+
+    const duration = audio.length / sampleRate;
+    const offlineCtx = new OfflineAudioContext(1, Math.ceil(duration * WHISPER_SAMPLE_RATE), WHISPER_SAMPLE_RATE);
+    const buffer = offlineCtx.createBuffer(1, audio.length, sampleRate);
+    buffer.copyToChannel(audio, 0);
+
+    const source = offlineCtx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(offlineCtx.destination);
+    source.start();
+
+    const rendered = await offlineCtx.startRendering();
+    return rendered.getChannelData(0);
+}
+
+/**
+ * Scales audio so its loudest sample sits at `targetPeak`.
+ */
+export function normalizePeak(audio: Float32Array, targetPeak = 0.95): { audio: Float32Array; peak: number; gain: number } {
+    let peak = 0;
+    for (let i = 0; i < audio.length; i++) {
+        const abs = Math.abs(audio[i]);
+        if (abs > peak) peak = abs;
+    }
+
+    const gain = peak > 0 ? targetPeak / peak : 1.0;
+
+    const normalized = new Float32Array(audio.length);
+    for (let i = 0; i < audio.length; i++) {
+        normalized[i] = audio[i] * gain;
+    }
+
+    return { audio: normalized, peak, gain };
+}
+
+export function downmixToMono(buffer: AudioBuffer): Float32Array {
+    if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const channel = buffer.getChannelData(c);
+        for (let i = 0; i < buffer.length; i++) {
+            mono[i] += channel[i];
+        }
+    }
+    for (let i = 0; i < mono.length; i++) {
+        mono[i] /= buffer.numberOfChannels;
+    }
+    return mono;
+}
+
+/**
+ * Decodes an audio or video file (WAV/MP3/OGG/WebM/M4A/MP4...) to 16kHz mono.
+ * Decoding through a 16kHz context lets the browser resample as it decodes, which keeps
+ * long files from ever existing in memory at 44.1/48kHz stereo.
+ */
+export async function decodeAudioFile(file: Blob): Promise<Float32Array> {
+    const data = await file.arrayBuffer();
+    const ctx = new OfflineAudioContext(1, 1, WHISPER_SAMPLE_RATE);
+    const decoded = await ctx.decodeAudioData(data);
+    return downmixToMono(decoded);
+}
+
+/**
+ * Cuts long audio into chunks of at most `maxSeconds`, placing each cut at the quietest
+ * 30ms window within the last `searchSeconds` of the chunk so words are not split.
+ * Every chunk after the first also starts `overlapSeconds` before its cut.
+ * Returns views into the original array.
+ */
+export function splitAtQuietPoints(
+    audio: Float32Array,
+    sampleRate: number,
+    maxSeconds = 28,
+    searchSeconds = 3,
+    overlapSeconds = 0
+): Float32Array[] {
+    const maxLength = Math.floor(maxSeconds * sampleRate);
+    const searchLength = Math.floor(searchSeconds * sampleRate);
+    const overlapLength = Math.floor(overlapSeconds * sampleRate);
+    const window = Math.floor(0.03 * sampleRate);
+
+    const chunks: Float32Array[] = [];
+    let start = 0;
+
+    while (audio.length - start > maxLength) {
+        let cut = start + maxLength;
+        let quietest = Infinity;
+
+        for (let w = start + maxLength - searchLength; w + window <= start + maxLength; w += window) {
+            let energy = 0;
+            for (let i = w; i < w + window; i++) energy += audio[i] * audio[i];
+            if (energy < quietest) {
+                quietest = energy;
+                cut = w + Math.floor(window / 2);
+            }
+        }
+
+        chunks.push(audio.subarray(Math.max(0, start - overlapLength), cut));
+        start = cut;
+    }
+
+    if (start < audio.length) chunks.push(audio.subarray(Math.max(0, start - overlapLength)));
+    return chunks;
+}
+
+/**
+ * Encodes mono Float32 audio as a 16-bit PCM WAV file.
+ */
+export function encodeWav(audio: Float32Array, sampleRate: number): Blob {
+    const bytesPerSample = 2;
+    const dataSize = audio.length * bytesPerSample;
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * bytesPerSample, true);
+    view.setUint16(32, bytesPerSample, true);
+    view.setUint16(34, 8 * bytesPerSample, true);
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    for (let i = 0; i < audio.length; i++) {
+        const sample = Math.max(-1, Math.min(1, audio[i]));
+        view.setInt16(44 + i * bytesPerSample, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    }
+
+    return new Blob([view], { type: 'audio/wav' });
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RULE_STATE, REFINEMENT_RULES, RefinementRuleState, refineText } from './correctionEngine';
+
+const only = (id: string): RefinementRuleState =>
+    Object.fromEntries(REFINEMENT_RULES.map(rule => [rule.id, rule.id === id])) as RefinementRuleState;
+
+describe('filler removal', () => {
+    const removeFillers = (text: string) => refineText(text, only('fillers'));
+
+    it('drops a filler with the commas around it', () => {
+        expect(removeFillers('I, um, think so')).toBe('I think so');
+        expect(removeFillers('Um, I think so')).toBe('I think so');
+        expect(removeFillers('I think so, uh.')).toBe('I think so.');
+    });
+
+    it('drops a filler without commas', () => {
+        expect(removeFillers('so um I left')).toBe('so I left');
+        expect(removeFillers('hmm that is odd')).toBe('that is odd');
+    });
+
+    it('keeps a comma that belongs to the word before', () => {
+        expect(removeFillers('yes, um I agree')).toBe('yes, I agree');
+    });
+
+    it('only treats "er" and "err" as filler between commas', () => {
+        expect(removeFillers('It was, er, late')).toBe('It was late');
+        expect(removeFillers('ERR code 5 means retry')).toBe('ERR code 5 means retry');
+        expect(removeFillers('to err is human')).toBe('to err is human');
+        expect(removeFillers('we went to the ER')).toBe('we went to the ER');
+        expect(removeFillers('Erm, we left')).toBe('we left');
+    });
+});
+
+describe('repeat collapsing', () => {
+    const collapse = (text: string) => refineText(text, only('repeats'));
+
+    it('collapses stutters', () => {
+        expect(collapse('I went to the the store')).toBe('I went to the store');
+        expect(collapse('The the the cat')).toBe('The cat');
+        expect(collapse('we should we should go')).toBe('we should go');
+    });
+
+    it('keeps words doubled on purpose', () => {
+        expect(collapse('that that was good')).toBe('that that was good');
+        expect(collapse('no no no')).toBe('no no no');
+        expect(collapse('it was very very cold')).toBe('it was very very cold');
+        expect(collapse('she had had enough')).toBe('she had had enough');
+    });
+});
+
+describe('refineText', () => {
+    it('runs every rule by default', () => {
+        expect(refineText('um, i think, er, we are gonna win', DEFAULT_RULE_STATE)).toBe('I think we are going to win.');
+        expect(refineText('that that was good', DEFAULT_RULE_STATE)).toBe('That that was good.');
+    });
+});
@@ -0,0 +1,233 @@
+// Rule-based refinement of raw Whisper output.
+// Rules run in the order they are declared; each one is a pure string -> string transform.
+
+import {
+    normalizeCardinals,
+    normalizeDates,
+    normalizeMoney,
+    normalizeOrdinals,
+    normalizePercentages,
+    normalizePhoneNumbers,
+    normalizeTimes,
+    normalizeUnits,
+} from './inverseNormalization';
+
+export type RefinementRuleId =
+    | 'fillers'
+    | 'phones'
+    | 'dates'
+    | 'times'
+    | 'money'
+    | 'percentages'
+    | 'units'
+    | 'ordinals'
+    | 'numbers'
+    | 'repeats'
+    | 'informal'
+    | 'punctuation'
+    | 'terminal'
+    | 'casing';
+
+export interface RefinementRule {
+    id: RefinementRuleId;
+    label: string;
+    description: string;
+    apply: (text: string, options: RefinementOptions) => string;
+}
+
+export type RefinementRuleState = Record<RefinementRuleId, boolean>;
+
+export interface RefinementOptions {
+    // BCP 47 locale that numbers, dates, prices and units are written for
+    locale: string;
+}
+
+export const DEFAULT_REFINEMENT_OPTIONS: RefinementOptions = {
+    locale: 'en-US',
+};
+
+// A hesitation with the commas that set it off. "er"/"err" are also real words ("ERR code",
+// "to err"), so they only count as filler between two commas.
+const FILLER_PATTERN = /(,?)[^\S\n]*\b(u+m+|u+h+|e+r+m*|a+h+|h+m+|mhm)\b(,?)/gi;
+
+function removeFillers(text: string): string {
+    return text.replace(FILLER_PATTERN, (match, lead: string, filler: string, trail: string, offset: number, whole: string) => {
+        if (/^e+r+$/i.test(filler) && !(lead && trail)) return match;
+        // "I, um, think" and "um, I think" lose the commas too; "yes, um I" keeps the one after "yes"
+        if (trail) return '';
+        const endsClause = /^[^\S\n]*(?:[.!?]|$)/.test(whole.slice(offset + match.length));
+        return endsClause ? '' : lead;
+    });
+}
+
+// A word or short phrase (up to three words) immediately said again
+const REPEAT_PATTERN = /\b(\w+(?:'\w+)?(?:[^\S\n]+\w+(?:'\w+)?){0,2})(?:[^\S\n]*,?[^\S\n]+\1\b)+/gi;
+
+// Words a speaker trips over but has no reason to say twice. Any other word can be doubled on
+// purpose, in grammar ("that that", "had had", "you you") or for emphasis ("no no no", "very very").
+const STUTTER_WORDS = new Set([
+    'a', 'an', 'the', 'i', "i'm", "i've", 'we', 'they', 'he', 'she', 'my', 'our', 'their',
+    'and', 'but', 'of', 'to', 'for', 'with', 'this', 'these',
+]);
+
+// Collapses a repeated phrase, and a repeated single word only if it is a stutter
+function collapseRepeats(text: string): string {
+    return text.replace(REPEAT_PATTERN, (match, phrase: string) => {
+        const words = phrase.toLowerCase().split(/\s+/);
+        if (words.some(word => word !== words[0])) return phrase;
+        // "the the the the" matches as "the the" twice
+        return STUTTER_WORDS.has(words[0]) ? phrase.split(/\s+/)[0] : match;
+    });
+}
+
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATIONS = /\b(?:i\.e|e\.g|etc|vs|mr|mrs|ms|dr|st)\.\s+$/i;
+
+const INFORMAL_REPLACEMENTS: [RegExp, string][] = [
+    [/\bgonna\b/gi, 'going to'],
+    [/\bwanna\b/gi, 'want to'],
+    [/\bgotta\b/gi, 'got to'],
+    [/\bkinda\b/gi, 'kind of'],
+    [/\bsorta\b/gi, 'sort of'],
+    [/\blemme\b/gi, 'let me'],
+    [/\bgimme\b/gi, 'give me'],
+];
+
+// Keep the capitalization of the first letter when swapping a word out
+function matchCase(original: string, replacement: string): string {
+    if (original[0] && original[0] === original[0].toUpperCase()) {
+        return replacement[0].toUpperCase() + replacement.slice(1);
+    }
+    return replacement;
+}
+
+export const REFINEMENT_RULES: RefinementRule[] = [
+    {
+        id: 'fillers',
+        label: 'Remove filler words',
+        description: 'Drops hesitations such as "um", "uh", "erm" and "hmm".',
+        apply: (text) => removeFillers(text),
+    },
+    // Spoken numbers, before "repeats" would collapse "twenty one twenty one"
+    {
+        id: 'phones',
+        label: 'Write phone numbers',
+        description: 'Turns digits read one by one after "call", "phone" or "number", like "call five five five one two three four", into "call 555-1234".',
+        apply: (text, { locale }) => normalizePhoneNumbers(text, locale),
+    },
+    {
+        id: 'dates',
+        label: 'Write dates',
+        description: 'Turns "march third twenty twenty four" into "March 3, 2024", and "in nineteen ninety" into "in 1990".',
+        apply: (text, { locale }) => normalizeDates(text, locale),
+    },
+    {
+        id: 'times',
+        label: 'Write times',
+        description: 'Turns "three thirty p m" into "3:30 PM" and "at four fifteen" into "at 4:15".',
+        apply: (text, { locale }) => normalizeTimes(text, locale),
+    },
+    {
+        id: 'money',
+        label: 'Write amounts of money',
+        description: 'Turns "twenty five dollars and fifty cents" into "$25.50".',
+        apply: (text, { locale }) => normalizeMoney(text, locale),
+    },
+    {
+        id: 'percentages',
+        label: 'Write percentages',
+        description: 'Turns "twelve point five percent" into "12.5%".',
+        apply: (text, { locale }) => normalizePercentages(text, locale),
+    },
+    {
+        id: 'units',
+        label: 'Write units of measure',
+        description: 'Turns "five kilometers" into "5 km" and "twenty degrees celsius" into "20°C".',
+        apply: (text, { locale }) => normalizeUnits(text, locale),
+    },
+    {
+        id: 'ordinals',
+        label: 'Write ordinals as digits',
+        description: 'Turns "twenty first" into "21st"; "first" to "ninth" stay as words.',
+        apply: (text, { locale }) => normalizeOrdinals(text, locale),
+    },
+    {
+        id: 'numbers',
+        label: 'Write numbers as digits',
+        description: 'Turns "two hundred and fifty" into "250"; one to nine stay as words.',
+        apply: (text, { locale }) => normalizeCardinals(text, locale),
+    },
+    {
+        id: 'repeats',
+        label: 'Collapse repeated words',
+        description: 'Turns stutters like "the the" or "we should we should" into a single phrase. Words that are doubled on purpose, as in "that that" or "no no no", are kept.',
+        apply: (text) => collapseRepeats(text),
+    },
+    {
+        id: 'informal',
+        label: 'Expand informal contractions',
+        description: 'Rewrites "gonna", "wanna", "kinda" and friends in full.',
+        apply: (text) => INFORMAL_REPLACEMENTS.reduce(
+            (acc, [pattern, replacement]) => acc.replace(pattern, (match) => matchCase(match, replacement)),
+            text
+        ),
+    },
+    {
+        id: 'punctuation',
+        label: 'Clean up punctuation',
+        description: 'Fixes spacing around punctuation and removes doubled or dangling marks.',
+        apply: (text) => text
+            .split('\n')
+            .map(line => line
+                .replace(/[^\S\n]+([,.!?;:])/g, '$1')
+                .replace(/([,;:])(?=[A-Za-z])/g, '$1 ')
+                .replace(/[,;:]+([.!?])/g, '$1')
+                .replace(/([!?,;:])\1+/g, '$1')
+                .replace(/(?<!\.)\.\.(?!\.)/g, '.')
+                .replace(/^[\s,.;:]+/, '')
+                .replace(/[^\S\n]{2,}/g, ' ')
+                .trim()
+            )
+            .join('\n'),
+    },
+    {
+        id: 'terminal',
+        label: 'End sentences with punctuation',
+        description: 'Adds a full stop to paragraphs that trail off without one.',
+        apply: (text) => text
+            .split('\n')
+            .map(line => (line.trim() && !/[.!?…:;"')\]]$/.test(line.trimEnd()) ? `${line.trimEnd()}.` : line))
+            .join('\n'),
+    },
+    {
+        id: 'casing',
+        label: 'Fix sentence casing',
+        description: 'Capitalizes the start of each sentence and the pronoun "I".',
+        apply: (text) => text
+            .replace(/(^|[.!?]\s+|\n\s*)([a-z])/g, (match, prefix: string, letter: string, offset: number, whole: string) =>
+                ABBREVIATIONS.test(whole.slice(0, offset + prefix.length)) ? match : prefix + letter.toUpperCase()
+            )
+            .replace(/\bi\b(?!\.\w)/g, 'I'),
+    },
+];
+
+export const DEFAULT_RULE_STATE: RefinementRuleState = REFINEMENT_RULES.reduce(
+    (acc, rule) => ({ ...acc, [rule.id]: true }),
+    {} as RefinementRuleState
+);
+
+/**
+ * Runs the enabled refinement rules over raw dictation, in declaration order.
+ */
+export function refineText(
+    text: string,
+    enabled: RefinementRuleState = DEFAULT_RULE_STATE,
+    options: RefinementOptions = DEFAULT_REFINEMENT_OPTIONS
+): string {
+    if (!text.trim()) return '';
+
+    return REFINEMENT_RULES
+        .filter(rule => enabled[rule.id])
+        .reduce((acc, rule) => rule.apply(acc, options), text)
+        .trim();
+}
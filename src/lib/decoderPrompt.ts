@@ -0,0 +1,47 @@
+// Prompt conditioning: Whisper can be given text to continue from as decoder prompt tokens
+// (<|startofprev|> ... <|startoftranscript|>). Each chunk is sent with the end of the transcript
+// so far, after a user-written initial prompt (names, glossary, style hints), which keeps
+// spelling and punctuation consistent from one chunk to the next.
+
+import { TranscriptSegment } from './transcript';
+import { DecoderPrompt } from './workerProtocol';
+
+export interface PromptSettings {
+    // Off when conditioning makes the model repeat itself
+    enabled: boolean;
+    initialPrompt: string;
+}
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+    enabled: true,
+    initialPrompt: '',
+};
+
+// Characters of preceding transcript to send; the worker trims the prompt to Whisper's token limit
+const PREVIOUS_TEXT_CHARS = 800;
+
+/**
+ * The prompt for a chunk: the initial prompt, and the transcript committed before `before`
+ * seconds (everything when omitted). Undefined when there is nothing to send.
+ */
+export function buildDecoderPrompt(
+    settings: PromptSettings,
+    segments: TranscriptSegment[],
+    before?: number
+): DecoderPrompt | undefined {
+    if (!settings.enabled) return undefined;
+
+    const previous = segments
+        .filter(segment => before === undefined || segment.end <= before)
+        .map(segment => segment.text)
+        .join(' ')
+        .trim();
+    // Start the tail on a word boundary
+    const tail = previous.length > PREVIOUS_TEXT_CHARS
+        ? previous.slice(previous.indexOf(' ', previous.length - PREVIOUS_TEXT_CHARS) + 1)
+        : previous;
+    const initial = settings.initialPrompt.trim();
+
+    if (!initial && !tail) return undefined;
+    return { initial, previous: tail };
+}
@@ -0,0 +1,183 @@
+// Post-filter for things Whisper writes that nobody said: non-speech annotations ("[BLANK_AUDIO]",
+// "(music)"), decoding loops that repeat a phrase over and over, stock phrases from its training
+// subtitles ("Thanks for watching!"), and anything at all decoded from near-silent audio.
+// Every removal is reported with its reason so it can be logged.
+
+import { AudioLevel, TranscriptionResult, WhisperChunk } from './workerProtocol';
+
+export type SuppressionReason = 'non-speech' | 'repetition' | 'stock-phrase' | 'low-energy';
+
+export interface Suppression {
+    reason: SuppressionReason;
+    text: string;
+    detail: string;
+}
+
+export interface HallucinationContext {
+    // Level of the audio as captured, before normalization; unknown for interim results
+    level?: AudioLevel;
+    // The previous result, to catch a chunk that comes back as an exact copy of it
+    previousText?: string;
+}
+
+// Mean absolute amplitude below which audio is taken as silence (about -60 dBFS)
+const SILENT_AVERAGE = 0.001;
+// Below this (about -46 dBFS) a lone "Thank you." is more likely invented than said
+const QUIET_AVERAGE = 0.005;
+// Longest phrase checked for loops, and how often it has to come back to count as one;
+// single words are allowed a little more, as in "no, no, no"
+const MAX_LOOP_WORDS = 8;
+const MIN_LOOP_REPEATS = 3;
+const MIN_WORD_LOOP_REPEATS = 4;
+// Shorter results ("Okay.") may well be said twice in a row
+const MIN_COPY_WORDS = 4;
+
+const NON_SPEECH_WORDS = 'music|applause|laugh\\w*|silence|silent|noise|inaudible|cough\\w*|sigh\\w*|static|beep\\w*|clap\\w*|typing|breath\\w*|background|wind|upbeat|foreign|crying|chuckl\\w*|whisper\\w*|mumbl\\w*';
+const NON_SPEECH_PATTERNS: RegExp[] = [
+    // Whisper never writes square brackets for speech: [BLANK_AUDIO], [Music], [ Silence ]
+    /\[[^\]]*\]/g,
+    new RegExp(`\\([^)]*\\b(?:${NON_SPEECH_WORDS})\\b[^)]*\\)`, 'gi'),
+    new RegExp(`\\*[^*]*\\b(?:${NON_SPEECH_WORDS})\\b[^*]*\\*`, 'gi'),
+    /[♪♫][^♪♫]*[♪♫]|[♪♫]/g,
+];
+
+// Subtitle credits and video sign-offs that only ever come from the training data
+const CREDIT_PHRASES = [
+    /^(?:thanks?|thank you) (?:so much )?for watching\b/,
+    /\bplease (?:like and )?subscribe\b/,
+    /\bsubtitles? (?:by|created by)\b/,
+    /\bamara\.?org\b/,
+    /^(?:transcribed|transcription|translated|captions?) by\b/,
+];
+// Said for real often enough that they are only dropped from quiet audio
+const COURTESY_PHRASES = /^(?:thank you|thanks|thank you very much|you|bye|goodbye|okay|so)$/;
+
+// Lower-case words without punctuation, keeping dots inside words ("amara.org")
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}'.]+|\.(?![\p{L}\p{N}])/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+function toDecibels(amplitude: number): string {
+    return amplitude > 0 ? `${(20 * Math.log10(amplitude)).toFixed(1)} dBFS` : '-inf dBFS';
+}
+
+/**
+ * Collapses a phrase repeated back to back (a decoding loop) to its first occurrence.
+ */
+export function collapseLoops(text: string, onLoop?: (phrase: string, repeats: number) => void): string {
+    const leading = text.match(/^\s*/)?.[0] ?? '';
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    const normalized = words.map(normalizeWord);
+    const kept: string[] = [];
+
+    for (let i = 0; i < words.length;) {
+        let loop: { length: number; repeats: number } | null = null;
+        for (let length = 1; length <= MAX_LOOP_WORDS && i + length * 2 <= words.length; length++) {
+            const phrase = normalized.slice(i, i + length);
+            if (phrase.every(word => !word)) continue;
+            let repeats = 1;
+            while (phrase.every((word, j) => normalized[i + repeats * length + j] === word)) repeats++;
+            if (repeats >= (length === 1 ? MIN_WORD_LOOP_REPEATS : MIN_LOOP_REPEATS)) {
+                loop = { length, repeats };
+                break;
+            }
+        }
+
+        if (!loop) {
+            kept.push(words[i]);
+            i++;
+            continue;
+        }
+        kept.push(...words.slice(i, i + loop.length));
+        onLoop?.(words.slice(i, i + loop.length).join(' '), loop.repeats);
+        i += loop.length * loop.repeats;
+    }
+
+    return kept.length > 0 ? leading + kept.join(' ') : '';
+}
+
+/**
+ * Removes hallucinated text from a result. The result comes back unchanged when nothing was
+ * found; otherwise its chunks and text are rebuilt from what is left.
+ */
+export function filterHallucinations(
+    result: TranscriptionResult,
+    { level, previousText }: HallucinationContext = {}
+): { result: TranscriptionResult; suppressed: Suppression[] } {
+    const suppressed: Suppression[] = [];
+    const drop = (reason: SuppressionReason, text: string, detail: string) => {
+        suppressed.push({ reason, text: text.trim(), detail });
+    };
+    const text = result.text.trim();
+    if (!text) return { result, suppressed };
+
+    const empty: TranscriptionResult = { ...result, text: '', chunks: result.chunks ? [] : undefined };
+
+    if (level && level.average < SILENT_AVERAGE) {
+        drop('low-energy', text, `decoded from near-silent audio (mean ${toDecibels(level.average)}, peak ${toDecibels(level.peak)})`);
+        return { result: empty, suppressed };
+    }
+
+    const hadChunks = !!result.chunks && result.chunks.length > 0;
+    let chunks: WhisperChunk[] = hadChunks ? result.chunks! : [{ text: result.text, timestamp: [0, result.duration] }];
+
+    chunks = chunks.map(chunk => ({
+        ...chunk,
+        text: NON_SPEECH_PATTERNS.reduce((acc, pattern) => acc.replace(pattern, (match) => {
+            drop('non-speech', match, 'non-speech annotation');
+            return ' ';
+        }), chunk.text),
+    }));
+
+    chunks = chunks.map(chunk => ({
+        ...chunk,
+        text: collapseLoops(chunk.text, (phrase, repeats) => drop('repetition', phrase, `phrase repeated ${repeats} times in a row`)),
+    }));
+
+    // The same timestamped chunk over and over is a loop too
+    const deduplicated: WhisperChunk[] = [];
+    for (let i = 0; i < chunks.length;) {
+        const key = normalize(chunks[i].text);
+        let end = i + 1;
+        while (key && end < chunks.length && normalize(chunks[end].text) === key) end++;
+        if (end - i >= MIN_LOOP_REPEATS) {
+            deduplicated.push(chunks[i]);
+            drop('repetition', chunks[i].text, `segment repeated ${end - i} times in a row`);
+        } else {
+            deduplicated.push(...chunks.slice(i, end));
+        }
+        i = end;
+    }
+    chunks = deduplicated;
+
+    const remaining = chunks.map(chunk => chunk.text).join(' ').replace(/\s+/g, ' ').trim();
+    const key = normalize(remaining);
+    if (key && CREDIT_PHRASES.some(pattern => pattern.test(key))) {
+        drop('stock-phrase', remaining, 'subtitle credit or video sign-off');
+        return { result: empty, suppressed };
+    }
+    if (key && COURTESY_PHRASES.test(key) && level && level.average < QUIET_AVERAGE) {
+        drop('stock-phrase', remaining, `stock phrase from quiet audio (mean ${toDecibels(level.average)})`);
+        return { result: empty, suppressed };
+    }
+    if (previousText && key.split(' ').length >= MIN_COPY_WORDS && key === normalize(previousText)) {
+        drop('repetition', remaining, 'same text as the previous result');
+        return { result: empty, suppressed };
+    }
+
+    if (suppressed.length === 0) return { result, suppressed };
+
+    const kept = chunks.filter(chunk => chunk.text.trim());
+    return {
+        result: {
+            ...result,
+            text: remaining,
+            chunks: hadChunks ? kept : result.chunks,
+        },
+        suppressed,
+    };
+}
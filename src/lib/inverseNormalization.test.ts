@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { REFINEMENT_RULES, RefinementRuleId, RefinementRuleState, refineText } from './correctionEngine';
+
+const NUMBER_RULES: RefinementRuleId[] = ['phones', 'dates', 'times', 'money', 'percentages', 'units', 'ordinals', 'numbers'];
+
+// Only the number rules, so other clean-up (casing, repeats) does not blur what they did
+const numbersOnly = Object.fromEntries(
+    REFINEMENT_RULES.map(rule => [rule.id, NUMBER_RULES.includes(rule.id)])
+) as RefinementRuleState;
+
+const normalize = (text: string, locale = 'en-US') => refineText(text, numbersOnly, { locale });
+
+describe('phrases that are not numbers to rewrite', () => {
+    it('does not read pounds as a weight without a reason to', () => {
+        expect(normalize('it costs five hundred pounds')).toBe('it costs 500 pounds');
+        expect(normalize('he weighs two hundred pounds')).toBe('he weighs 200 lb');
+        expect(normalize('two pounds of flour')).toBe('2 lb of flour');
+    });
+
+    it('does not read a weight as money in en-GB', () => {
+        expect(normalize('it costs five hundred pounds', 'en-GB')).toBe('it costs £500');
+        expect(normalize('he weighs two hundred pounds', 'en-GB')).toBe('he weighs 200 lb');
+    });
+
+    it('leaves idioms in words', () => {
+        expect(normalize('he is one in a million')).toBe('he is one in a million');
+        expect(normalize('a thousand and one nights')).toBe('a thousand and one nights');
+        expect(normalize('a million reasons')).toBe('a million reasons');
+    });
+
+    it('leaves decades in words', () => {
+        expect(normalize('the nineteen eighties')).toBe('the nineteen eighties');
+        expect(normalize('back in the twenty tens')).toBe('back in the twenty tens');
+    });
+
+    it('does not read early pairs of numbers as a year', () => {
+        expect(normalize('twelve twelve')).toBe('12 12');
+        expect(normalize('nineteen ninety was a good year')).toBe('1990 was a good year');
+    });
+
+    it('only writes a phone number when the sentence mentions one', () => {
+        expect(normalize('one two three four five six seven')).toBe('one two three four five six seven');
+        expect(normalize('call me at five five five one two three four')).toBe('call me at 555-1234');
+        expect(normalize('my number is two one two five five five one two three four')).toBe('my number is (212) 555-1234');
+        expect(normalize('my number is two one two five five five one two three four', 'en-GB')).toBe('my number is 212 555 1234');
+    });
+});
+
+describe('dates', () => {
+    it('writes month, day and year for the locale', () => {
+        expect(normalize('march third twenty twenty four')).toBe('March 3, 2024');
+        expect(normalize('march third twenty twenty four', 'en-GB')).toBe('3 March 2024');
+        expect(normalize('the fifth of may')).toBe('May 5');
+    });
+
+    it('writes years after a preposition', () => {
+        expect(normalize('in nineteen ninety nine')).toBe('in 1999');
+        expect(normalize('since two thousand and five')).toBe('since 2005');
+    });
+});
+
+describe('times', () => {
+    it('writes times with a.m. or p.m.', () => {
+        expect(normalize('three thirty p m')).toBe('3:30 PM');
+        expect(normalize('three thirty p m', 'en-GB')).toBe('15:30');
+    });
+
+    it('writes times said after "at" and with o\'clock', () => {
+        expect(normalize('at four fifteen')).toBe('at 4:15');
+        expect(normalize("ten o'clock")).toBe("10 o'clock");
+    });
+});
+
+describe('money, percentages and units', () => {
+    it('writes amounts of money', () => {
+        expect(normalize('twenty five dollars and fifty cents')).toBe('$25.50');
+        expect(normalize('ten euros')).toBe('€10');
+        expect(normalize('twenty five dollars', 'en-CA')).toBe('$25');
+    });
+
+    it('writes percentages and units', () => {
+        expect(normalize('twelve point five percent')).toBe('12.5%');
+        expect(normalize('five kilometers')).toBe('5 km');
+        expect(normalize('twenty degrees celsius')).toBe('20°C');
+    });
+});
+
+describe('plain numbers', () => {
+    it('writes cardinals from ten up and ordinals from tenth up', () => {
+        expect(normalize('two hundred and fifty')).toBe('250');
+        expect(normalize('three point one four')).toBe('3.14');
+        expect(normalize('twenty first')).toBe('21st');
+        expect(normalize('the first three')).toBe('the first three');
+    });
+});
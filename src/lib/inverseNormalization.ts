@@ -0,0 +1,595 @@
+// Inverse text normalization: numbers as they are said ("twenty five dollars", "march third",
+// "three thirty p m") written the way they are read ("$25", "March 3", "3:30 PM").
+// The spoken forms are English; the written forms follow a formatting locale through Intl,
+// so "3 March" or "15:30" come out for en-GB. Each category is its own function, run as a
+// separate refinement rule, and the more specific ones go first so they see the number words
+// before the plain number rule turns them into digits.
+
+export interface FormatLocale {
+    code: string;
+    label: string;
+}
+
+export const FORMAT_LOCALES: FormatLocale[] = [
+    { code: 'en-US', label: 'English (US)' },
+    { code: 'en-GB', label: 'English (UK)' },
+    { code: 'en-CA', label: 'English (Canada)' },
+    { code: 'en-AU', label: 'English (Australia)' },
+    { code: 'en-IN', label: 'English (India)' },
+    { code: 'de-DE', label: 'German' },
+    { code: 'fr-FR', label: 'French' },
+    { code: 'es-ES', label: 'Spanish' },
+    { code: 'it-IT', label: 'Italian' },
+    { code: 'nl-NL', label: 'Dutch' },
+    { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+];
+
+/**
+ * The browser's locale when it is one of FORMAT_LOCALES (or shares its language with one), else en-US.
+ */
+export function defaultFormatLocale(): string {
+    const preferred = typeof navigator === 'undefined' ? '' : navigator.language;
+    const exact = FORMAT_LOCALES.find(locale => locale.code.toLowerCase() === preferred.toLowerCase());
+    const sameLanguage = FORMAT_LOCALES.find(locale => locale.code.split('-')[0] === preferred.split('-')[0]);
+    return (exact ?? sameLanguage)?.code ?? 'en-US';
+}
+
+const UNITS: Record<string, number> = {
+    zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+};
+const TEENS: Record<string, number> = {
+    ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+    sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const TENS: Record<string, number> = {
+    twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const SCALES: Record<string, number> = {
+    thousand: 1e3, million: 1e6, billion: 1e9, trillion: 1e12,
+};
+const ORDINALS: Record<string, number> = {
+    first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9,
+    tenth: 10, eleventh: 11, twelfth: 12, thirteenth: 13, fourteenth: 14, fifteenth: 15,
+    sixteenth: 16, seventeenth: 17, eighteenth: 18, nineteenth: 19,
+    twentieth: 20, thirtieth: 30, fortieth: 40, fiftieth: 50, sixtieth: 60, seventieth: 70, eightieth: 80, ninetieth: 90,
+    hundredth: 100, thousandth: 1e3, millionth: 1e6, billionth: 1e9,
+};
+// Digits read out one by one, as in phone numbers and after "point"
+const DIGITS: Record<string, number> = { ...UNITS, oh: 0, o: 0 };
+
+const MONTHS = [
+    'january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const has = (table: Record<string, number>, word: string | undefined) =>
+    word !== undefined && Object.prototype.hasOwnProperty.call(table, word);
+
+const alternation = (words: string[]) => [...words].sort((a, b) => b.length - a.length).join('|');
+
+const CARDINAL_WORD = `(?:${alternation([...Object.keys(UNITS), ...Object.keys(TEENS), ...Object.keys(TENS), 'hundred', ...Object.keys(SCALES)])})`;
+const ORDINAL_WORD = `(?:${alternation(Object.keys(ORDINALS))})`;
+const NUMBER_WORD = `(?:${CARDINAL_WORD}|${ORDINAL_WORD})`;
+const DIGIT_WORD = `(?:${alternation(Object.keys(DIGITS))})`;
+// "two hundred and five", "a thousand", "minus three point one four"; ordinals only at the end
+const NUMBER_PHRASE = `(?:minus\\s+)?(?:a\\s+(?=hundred|thousand|million|billion))?${CARDINAL_WORD}`
+    + `(?:(?:[\\s-]+|\\s+and\\s+)${CARDINAL_WORD})*(?:[\\s-]+${ORDINAL_WORD})?(?:\\s+point(?:\\s+${DIGIT_WORD})+)?`;
+const DIGIT_AMOUNT = '\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?';
+// What a price, percentage or measurement starts with: said in words, or already in digits
+const AMOUNT = `(?:${DIGIT_AMOUNT}|${NUMBER_PHRASE})`;
+
+type NumberKind = 'unit' | 'teen' | 'tens' | 'hundred' | 'scale';
+
+export interface ParsedNumber {
+    value: number;
+    ordinal: boolean;
+    // Index after the last word read
+    end: number;
+    // Read as a year, which is written without grouping
+    year?: boolean;
+}
+
+function wordValue(word: string): { kind: NumberKind; value: number; ordinal: boolean } | null {
+    if (has(UNITS, word)) return { kind: 'unit', value: UNITS[word], ordinal: false };
+    if (has(TEENS, word)) return { kind: 'teen', value: TEENS[word], ordinal: false };
+    if (has(TENS, word)) return { kind: 'tens', value: TENS[word], ordinal: false };
+    if (word === 'hundred') return { kind: 'hundred', value: 100, ordinal: false };
+    if (has(SCALES, word)) return { kind: 'scale', value: SCALES[word], ordinal: false };
+    if (has(ORDINALS, word)) {
+        const value = ORDINALS[word];
+        const kind: NumberKind = value < 10 ? 'unit' : value < 20 ? 'teen' : value < 100 ? 'tens' : value === 100 ? 'hundred' : 'scale';
+        return { kind, value, ordinal: true };
+    }
+    return null;
+}
+
+/**
+ * Reads the longest number starting at `words[start]` (lower-case words, hyphens split off).
+ * Words that cannot continue a number ("five six", "twenty twenty") end it, so a run of number
+ * words can be read as several numbers in turn.
+ */
+export function readNumber(words: string[], start = 0): ParsedNumber | null {
+    let total = 0;
+    let group = 0;
+    let last: NumberKind | 'start' = 'start';
+    let lastScale = Infinity;
+    let sign = 1;
+    let result: ParsedNumber | null = null;
+    let i = start;
+
+    if (words[i] === 'minus') {
+        sign = -1;
+        i++;
+    }
+    if (words[i] === 'a' && /^(?:hundred|thousand|million|billion|trillion)$/.test(words[i + 1] ?? '')) {
+        group = 1;
+        last = 'unit';
+        i++;
+    }
+
+    while (i < words.length) {
+        // "and" only joins "hundred and five" or "thousand and twenty"
+        if (words[i] === 'and' && (last === 'hundred' || last === 'scale')) {
+            const next = wordValue(words[i + 1] ?? '');
+            if (!next || next.kind === 'hundred' || next.kind === 'scale') break;
+            i++;
+            continue;
+        }
+
+        const word = wordValue(words[i]);
+        if (!word) break;
+        const { kind, value, ordinal } = word;
+        const fits = kind === 'unit' ? last === 'start' || last === 'tens' || last === 'hundred' || last === 'scale'
+            : kind === 'teen' || kind === 'tens' ? last === 'start' || last === 'hundred' || last === 'scale'
+                : kind === 'hundred' ? (last === 'unit' || last === 'teen' || last === 'tens') && group > 0 && group < 100
+                    : (last === 'unit' || last === 'teen' || last === 'tens' || last === 'hundred') && value < lastScale;
+        if (!fits) break;
+
+        if (kind === 'hundred') {
+            group *= 100;
+        } else if (kind === 'scale') {
+            total += group * value;
+            group = 0;
+            lastScale = value;
+        } else {
+            group += value;
+        }
+        last = kind;
+        i++;
+        result = { value: sign * (total + group), ordinal, end: i };
+        if (ordinal) return result;
+    }
+
+    // "three point one four"
+    if (result && words[result.end] === 'point' && has(DIGITS, words[result.end + 1])) {
+        let digits = '';
+        let j = result.end + 1;
+        while (j < words.length && has(DIGITS, words[j])) digits += DIGITS[words[j++]];
+        result = { value: sign * (Math.abs(result.value) + Number(`0.${digits}`)), ordinal: false, end: j };
+    }
+    return result;
+}
+
+// Words of a matched phrase with where each starts, hyphenated number words split apart
+function splitWords(phrase: string): { word: string; index: number }[] {
+    return Array.from(phrase.matchAll(/[^\s-]+/g), match => ({ word: match[0].toLowerCase(), index: match.index! }));
+}
+
+/**
+ * The number a phrase ends with, and the text before it. A phrase matched as one run of number
+ * words can hold several numbers ("five and six"); only the last belongs to the word after it.
+ */
+function trailingNumber(phrase: string): { prefix: string; value: number } | null {
+    if (/^\d/.test(phrase)) return { prefix: '', value: Number(phrase.replace(/,/g, '')) };
+
+    const words = splitWords(phrase);
+    const list = words.map(({ word }) => word);
+    for (let start = 0; start < words.length; start++) {
+        const parsed = readNumber(list, start);
+        if (parsed && parsed.end === words.length && !parsed.ordinal) {
+            return { prefix: phrase.slice(0, words[start].index), value: parsed.value };
+        }
+    }
+    return null;
+}
+
+// Whether `pattern` matches one of the few words before `offset`, within the same sentence
+function precededBy(text: string, offset: number, pattern: RegExp, words = 6): boolean {
+    const sentence = text.slice(0, offset).split(/[.!?\n]/).pop() ?? '';
+    return pattern.test(sentence.split(/\s+/).filter(Boolean).slice(-words).join(' '));
+}
+
+// "Pounds" can be money or weight; they are a weight after words like these, or before "of"
+const WEIGHT_CONTEXT = /\b(?:weigh\w*|weight|heav(?:y|ier|iest)|light(?:er|est)?|lost|lose|losing|gain(?:ed|ing)?|lift\w*|scales?|carr(?:y|ies|ied))\b/i;
+
+function isWeight(text: string, offset: number, end: number): boolean {
+    return precededBy(text, offset, WEIGHT_CONTEXT) || /^\s+of\b/i.test(text.slice(end));
+}
+
+function language(locale: string): string {
+    return locale.split('-')[0];
+}
+
+function region(locale: string): string {
+    return locale.split('-')[1] ?? '';
+}
+
+function formatNumber(value: number, locale: string): string {
+    return new Intl.NumberFormat(locale, { maximumFractionDigits: 10 }).format(value);
+}
+
+// Ordinal marks where the locale writes them after the digits
+const ORDINAL_MARKS: Record<string, string> = { fr: 'e', es: '.º', it: 'º', pt: 'º' };
+const ENGLISH_ORDINAL_SUFFIXES: Record<string, string> = { one: 'st', two: 'nd', few: 'rd', other: 'th' };
+
+function formatOrdinal(value: number, locale: string): string {
+    if (language(locale) === 'en') {
+        return `${value}${ENGLISH_ORDINAL_SUFFIXES[new Intl.PluralRules('en', { type: 'ordinal' }).select(value)]}`;
+    }
+    if (language(locale) === 'fr' && value === 1) return '1er';
+    return `${value}${ORDINAL_MARKS[language(locale)] ?? '.'}`;
+}
+
+// Two-part years: "nineteen ninety nine", "twenty oh five", "twenty twenty"
+function readSplitYear(words: string[], start = 0): ParsedNumber | null {
+    const isPart = (parsed: ParsedNumber | null): parsed is ParsedNumber =>
+        !!parsed && !parsed.ordinal && Number.isInteger(parsed.value) && parsed.value >= 10 && parsed.value <= 99;
+
+    const century = readNumber(words, start);
+    if (!isPart(century)) return null;
+    const next = century.end;
+    if ((words[next] === 'oh' || words[next] === 'o') && UNITS[words[next + 1]] > 0) {
+        return { value: century.value * 100 + UNITS[words[next + 1]], ordinal: false, end: next + 2, year: true };
+    }
+    const decade = readNumber(words, next);
+    return isPart(decade) ? { value: century.value * 100 + decade.value, ordinal: false, end: decade.end, year: true } : null;
+}
+
+// Runs of number words, including ordinals said on their own
+const NUMBER_RUN_PATTERN = new RegExp(`\\b(?:${NUMBER_PHRASE}|${ORDINAL_WORD})\\b`, 'gi');
+
+// Outside a date, two numbers are only read as one year from 1700 on: "nineteen ninety" is a
+// year, "twelve twelve" is not
+const MIN_FREE_YEAR = 1700;
+
+// Rewrites each run of number words, reading it as consecutive numbers. Two numbers that
+// together read as a year from 1700 to 2099 ("nineteen ninety") are taken as one.
+function rewriteNumberRuns(text: string, convert: (parsed: ParsedNumber, original: string) => string): string {
+    return text.replace(NUMBER_RUN_PATTERN, (phrase) => {
+        const words = splitWords(phrase);
+        const list = words.map(({ word }) => word);
+        let output = '';
+        let copied = 0;
+        for (let i = 0; i < words.length;) {
+            const single = readNumber(list, i);
+            const year = readSplitYear(list, i);
+            const isYear = !!year && year.value >= MIN_FREE_YEAR && year.value < 2100 && year.end > (single?.end ?? i);
+            const parsed = isYear ? year : single;
+            if (!parsed) {
+                i++;
+                continue;
+            }
+            const from = words[i].index;
+            const to = words[parsed.end - 1].index + words[parsed.end - 1].word.length;
+            output += phrase.slice(copied, from) + convert(parsed, phrase.slice(from, to));
+            copied = to;
+            i = parsed.end;
+        }
+        return output + phrase.slice(copied);
+    });
+}
+
+const DECADE_WORD = '(?:tens|twenties|thirties|forties|fifties|sixties|seventies|eighties|nineties|hundreds|noughties)';
+// Number words that are not quantities: idioms, and decades ("the nineteen eighties")
+const FIXED_PHRASE_PATTERN = new RegExp(
+    `\\b(?:one\\s+in\\s+an?\\s+(?:hundred|thousand|million|billion)|a\\s+(?:thousand|million)\\s+and\\s+one`
+    + `|${CARDINAL_WORD}(?:[\\s-]+${CARDINAL_WORD})*[\\s-]+${DECADE_WORD})\\b`,
+    'gi'
+);
+
+// Applies `rewrite` to the text between fixed phrases
+function outsideFixedPhrases(text: string, rewrite: (part: string) => string): string {
+    let output = '';
+    let copied = 0;
+    for (const match of text.matchAll(FIXED_PHRASE_PATTERN)) {
+        output += rewrite(text.slice(copied, match.index)) + match[0];
+        copied = match.index! + match[0].length;
+    }
+    return output + rewrite(text.slice(copied));
+}
+
+/**
+ * "twenty five" → "25", "one thousand two hundred" → "1,200". One to nine stay words, as most
+ * style guides have it, unless they are part of something bigger ("nine point five"); so do
+ * a bare "a million" and the fixed phrases above.
+ */
+export function normalizeCardinals(text: string, locale: string): string {
+    return outsideFixedPhrases(text, part => rewriteNumberRuns(part, (parsed, original) => {
+        if (parsed.ordinal) return original;
+        if (parsed.year) return String(parsed.value);
+        const isSingleWord = !/[\s-]/.test(original);
+        if (isSingleWord && Math.abs(parsed.value) < 10) return original;
+        // "a million reasons" is a figure of speech more often than a count
+        if (/^a\s+\S+$/i.test(original)) return original;
+        return formatNumber(parsed.value, locale);
+    }));
+}
+
+/**
+ * "twenty first" → "21st". "first" to "ninth" stay words ("first of all").
+ */
+export function normalizeOrdinals(text: string, locale: string): string {
+    return rewriteNumberRuns(text, (parsed, original) => (
+        parsed.ordinal && parsed.value >= 10 ? formatOrdinal(parsed.value, locale) : original
+    ));
+}
+
+// A year in digits, in two parts, or read in full ("two thousand and five")
+function parseYear(phrase: string): number | null {
+    if (/^\d{4}$/.test(phrase)) return Number(phrase);
+    const words = splitWords(phrase).map(({ word }) => word);
+    const whole = readNumber(words);
+    if (whole && whole.end === words.length && !whole.ordinal && Number.isInteger(whole.value) && whole.value >= 1000 && whole.value < 3000) {
+        return whole.value;
+    }
+    const split = readSplitYear(words);
+    return split && split.end === words.length ? split.value : null;
+}
+
+function parseDay(phrase: string): number | null {
+    const digits = /^(\d{1,2})(?:st|nd|rd|th)?$/i.exec(phrase);
+    if (digits) return Number(digits[1]);
+    const words = splitWords(phrase).map(({ word }) => word);
+    const parsed = readNumber(words);
+    return parsed && parsed.end === words.length ? parsed.value : null;
+}
+
+const MONTH = `(${alternation(MONTHS)})`;
+const DAY = `((?:(?:twenty|thirty)[\\s-]+)?${NUMBER_WORD}|\\d{1,2}(?:st|nd|rd|th)?)`;
+const YEAR = `(\\d{4}|${NUMBER_PHRASE}(?:\\s+(?:oh|o)\\s+${CARDINAL_WORD})?)`;
+const MONTH_DAY_PATTERN = new RegExp(`\\b${MONTH}\\s+(?:the\\s+)?${DAY}(?:,?\\s+${YEAR})?\\b`, 'gi');
+const DAY_MONTH_PATTERN = new RegExp(`\\b(?:the\\s+)?${DAY}\\s+of\\s+${MONTH}(?:,?\\s+${YEAR})?\\b`, 'gi');
+const YEAR_PATTERN = new RegExp(`\\b(in|since|by|until|from|of)\\s+${YEAR}\\b`, 'gi');
+
+function formatDate(month: number, day: number, year: number | null, locale: string): string {
+    return new Intl.DateTimeFormat(locale, {
+        month: 'long',
+        day: 'numeric',
+        year: year === null ? undefined : 'numeric',
+        timeZone: 'UTC',
+    }).format(new Date(Date.UTC(year ?? 2000, month, day)));
+}
+
+/**
+ * "march third twenty twenty four" → "March 3, 2024", "the fifth of may" → "May 5", and
+ * years after "in", "since" and the like ("in nineteen ninety nine" → "in 1999").
+ */
+export function normalizeDates(text: string, locale: string): string {
+    const convert = (match: string, monthName: string, dayPhrase: string, yearPhrase: string | undefined) => {
+        const month = MONTHS.indexOf(monthName.toLowerCase());
+        const day = parseDay(dayPhrase);
+        // Lower-case "may" is more likely the verb, unless an ordinal follows
+        if (monthName === 'may' && !/(?:st|nd|rd|th)$/i.test(dayPhrase)) return match;
+        if (day === null || day < 1 || day > new Date(Date.UTC(2000, month + 1, 0)).getUTCDate()) return match;
+
+        const year = yearPhrase ? parseYear(yearPhrase) : null;
+        const date = formatDate(month, day, year, locale);
+        // A number after the date that is not a year is left for the number rules
+        return yearPhrase && year === null ? `${date} ${yearPhrase}` : date;
+    };
+
+    return text
+        .replace(MONTH_DAY_PATTERN, (match, month: string, day: string, year?: string) => convert(match, month, day, year))
+        .replace(DAY_MONTH_PATTERN, (match, day: string, month: string, year?: string) => convert(match, month, day, year))
+        .replace(YEAR_PATTERN, (match, preposition: string, yearPhrase: string) => {
+            const year = parseYear(yearPhrase);
+            return year === null ? match : `${preposition} ${year}`;
+        });
+}
+
+const HOUR = `(\\d{1,2}|${alternation([...Object.keys(UNITS).slice(1), 'ten', 'eleven', 'twelve'])})`;
+const MINUTE_WORDS = `((?:oh|o)[\\s-]+${alternation(Object.keys(UNITS).slice(1))}|${alternation(Object.keys(TEENS))}|(?:${alternation(Object.keys(TENS).slice(0, 4))})(?:[\\s-]+${alternation(Object.keys(UNITS).slice(1))})?)`;
+// "pm", "p.m.", "p m"
+const MERIDIEM = '([ap])\\.?\\s?m\\b(\\.)?';
+const MERIDIEM_TIME_PATTERN = new RegExp(`\\b${HOUR}(?:[:.](\\d{2})|\\s+${MINUTE_WORDS})?\\s*${MERIDIEM}`, 'gi');
+const OCLOCK_PATTERN = new RegExp(`\\b${HOUR}\\s+o'?clock\\b`, 'gi');
+const AT_TIME_PATTERN = new RegExp(`\\b(at)\\s+${HOUR}\\s+${MINUTE_WORDS}\\b`, 'gi');
+
+function parseHour(phrase: string): number | null {
+    const value = /^\d/.test(phrase) ? Number(phrase) : readNumber([phrase.toLowerCase()])?.value ?? null;
+    return value !== null && value >= 1 && value <= 12 ? value : null;
+}
+
+function parseMinutes(digits: string | undefined, words: string | undefined): number | null {
+    if (digits !== undefined) return Number(digits) < 60 ? Number(digits) : null;
+    if (words === undefined) return 0;
+    const list = splitWords(words).map(({ word }) => word);
+    if (list[0] === 'oh' || list[0] === 'o') return UNITS[list[1]];
+    const parsed = readNumber(list);
+    return parsed && parsed.end === list.length && parsed.value < 60 ? parsed.value : null;
+}
+
+function formatTime(hour: number, minutes: number, locale: string): string {
+    const twelveHour = !!new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions().hour12;
+    return new Intl.DateTimeFormat(locale, {
+        hour: 'numeric',
+        // "3 PM", but "15:00" rather than a bare "15"
+        minute: twelveHour && minutes === 0 ? undefined : '2-digit',
+        timeZone: 'UTC',
+    }).format(new Date(Date.UTC(2000, 0, 1, hour, minutes)));
+}
+
+/**
+ * "three thirty p m" → "3:30 PM" (or "15:30", by locale), "ten o'clock" → "10 o'clock",
+ * "at four fifteen" → "at 4:15".
+ */
+export function normalizeTimes(text: string, locale: string): string {
+    return text
+        .replace(MERIDIEM_TIME_PATTERN, (match, hourPhrase: string, minuteDigits: string | undefined, minuteWords: string | undefined,
+            meridiem: string, period: string | undefined, offset: number, whole: string) => {
+            const hour = parseHour(hourPhrase);
+            const minutes = parseMinutes(minuteDigits, minuteWords);
+            if (hour === null || minutes === null) return match;
+
+            const time = formatTime((hour % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0), minutes, locale);
+            // The period of "p.m." may also have ended the sentence
+            const rest = whole.slice(offset + match.length);
+            return period && (rest === '' || /^\s*(?:\n|\p{Lu})/u.test(rest)) ? `${time}.` : time;
+        })
+        .replace(OCLOCK_PATTERN, (match, hourPhrase: string) => {
+            const hour = parseHour(hourPhrase);
+            return hour === null ? match : `${hour} o'clock`;
+        })
+        .replace(AT_TIME_PATTERN, (match, at: string, hourPhrase: string, minuteWords: string) => {
+            const hour = parseHour(hourPhrase);
+            const minutes = parseMinutes(undefined, minuteWords);
+            return hour === null || minutes === null ? match : `${at} ${hour}:${String(minutes).padStart(2, '0')}`;
+        });
+}
+
+// Where "dollars" and "pounds" are the local currency
+const LOCAL_DOLLARS: Record<string, string> = { CA: 'CAD', AU: 'AUD', NZ: 'NZD', SG: 'SGD', HK: 'HKD' };
+
+function currencyFor(word: string, locale: string): string | null {
+    const name = word.toLowerCase().replace(/\s+/g, ' ');
+    if (/^(?:dollars?|bucks?)$/.test(name)) return LOCAL_DOLLARS[region(locale)] ?? 'USD';
+    if (/^euros?$/.test(name)) return 'EUR';
+    if (name === 'pounds sterling' || name === 'quid' || (/^pounds?$/.test(name) && region(locale) === 'GB')) return 'GBP';
+    if (name === 'yen') return 'JPY';
+    if (/^rupees?$/.test(name)) return 'INR';
+    if (name === 'yuan') return 'CNY';
+    return null;
+}
+
+const CURRENCY = '(pounds\\s+sterling|dollars?|bucks?|euros?|pounds?|quid|yen|rupees?|yuan)';
+const MONEY_PATTERN = new RegExp(`\\b(${AMOUNT})\\s+${CURRENCY}(?:,?\\s+(?:and\\s+)?(${AMOUNT})\\s+(?:cents?|pence))?\\b`, 'gi');
+const CENTS_PATTERN = new RegExp(`\\b(${AMOUNT})\\s+cents?\\b`, 'gi');
+
+function formatMoney(amount: number, currency: string, locale: string): string {
+    const whole = Number.isInteger(amount);
+    return new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: whole ? 0 : undefined,
+        maximumFractionDigits: whole ? 0 : undefined,
+    }).format(amount);
+}
+
+/**
+ * "twenty five dollars and fifty cents" → "$25.50", "ten euros" → "€10" (or "10 €", by locale).
+ * "Dollars" are the locale's own where it has them, and "pounds" are money only in en-GB, and
+ * not there either when they read as a weight.
+ */
+export function normalizeMoney(text: string, locale: string): string {
+    return text
+        .replace(MONEY_PATTERN, (match, amountPhrase: string, currencyWord: string, centsPhrase: string | undefined, offset: number, whole: string) => {
+            if (/^pounds?$/i.test(currencyWord) && isWeight(whole, offset, offset + match.length)) return match;
+            const currency = currencyFor(currencyWord, locale);
+            const amount = trailingNumber(amountPhrase);
+            const cents = centsPhrase ? trailingNumber(centsPhrase) : null;
+            if (!currency || !amount || (centsPhrase && (!cents || cents.prefix || cents.value >= 100))) return match;
+            return amount.prefix + formatMoney(amount.value + (cents?.value ?? 0) / 100, currency, locale);
+        })
+        .replace(CENTS_PATTERN, (match, amountPhrase: string) => {
+            const amount = trailingNumber(amountPhrase);
+            return amount && amount.value < 100 ? `${amount.prefix}${formatNumber(amount.value, locale)}¢` : match;
+        });
+}
+
+const PERCENT_PATTERN = new RegExp(`\\b(${AMOUNT})\\s+per\\s?cent\\b`, 'gi');
+
+/**
+ * "twelve point five percent" → "12.5%" (or "12,5 %", by locale).
+ */
+export function normalizePercentages(text: string, locale: string): string {
+    return text.replace(PERCENT_PATTERN, (match, amountPhrase: string) => {
+        const amount = trailingNumber(amountPhrase);
+        if (!amount) return match;
+        return amount.prefix + new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 4 }).format(amount.value / 100);
+    });
+}
+
+// Spoken unit names and the Intl unit each is written as
+const UNIT_NAMES: [RegExp, string][] = [
+    [/^kilomet(?:er|re)s? per hour$/, 'kilometer-per-hour'],
+    [/^miles? per hour$/, 'mile-per-hour'],
+    [/^degrees? (?:celsius|centigrade)$/, 'celsius'],
+    [/^degrees? fahrenheit$/, 'fahrenheit'],
+    [/^kilomet(?:er|re)s?$/, 'kilometer'],
+    [/^centimet(?:er|re)s?$/, 'centimeter'],
+    [/^millimet(?:er|re)s?$/, 'millimeter'],
+    [/^met(?:er|re)s?$/, 'meter'],
+    [/^miles?$/, 'mile'],
+    [/^yards?$/, 'yard'],
+    [/^(?:feet|foot)$/, 'foot'],
+    [/^inch(?:es)?$/, 'inch'],
+    [/^(?:kilograms?|kilos?)$/, 'kilogram'],
+    [/^grams?$/, 'gram'],
+    [/^pounds?$/, 'pound'],
+    [/^ounces?$/, 'ounce'],
+    [/^millilit(?:er|re)s?$/, 'milliliter'],
+    [/^lit(?:er|re)s?$/, 'liter'],
+    [/^terabytes?$/, 'terabyte'],
+    [/^gigabytes?$/, 'gigabyte'],
+    [/^megabytes?$/, 'megabyte'],
+    [/^kilobytes?$/, 'kilobyte'],
+];
+const UNIT_WORDS = '(kilomet(?:er|re)s?\\s+per\\s+hour|miles?\\s+per\\s+hour|degrees?\\s+(?:celsius|centigrade|fahrenheit)'
+    + '|(?:kilo|centi|milli)?met(?:er|re)s?|miles?|yards?|feet|foot|inch(?:es)?|kilograms?|kilos?|grams?|pounds?|ounces?'
+    + '|(?:milli)?lit(?:er|re)s?|(?:tera|giga|mega|kilo)bytes?)';
+const UNIT_PATTERN = new RegExp(`\\b(${AMOUNT})\\s+${UNIT_WORDS}\\b`, 'gi');
+
+/**
+ * "five kilometers" → "5 km", "twenty degrees celsius" → "20°C", in the locale's abbreviations.
+ * Pounds are a weight only after words like "weighs" or "lost", or before "of" ("two pounds of flour").
+ */
+export function normalizeUnits(text: string, locale: string): string {
+    return text.replace(UNIT_PATTERN, (match, amountPhrase: string, unitPhrase: string, offset: number, whole: string) => {
+        const name = unitPhrase.toLowerCase().replace(/\s+/g, ' ');
+        const unit = UNIT_NAMES.find(([pattern]) => pattern.test(name))?.[1];
+        const amount = trailingNumber(amountPhrase);
+        if (!unit || !amount) return match;
+        if (unit === 'pound' && !isWeight(whole, offset, offset + match.length)) return match;
+        return amount.prefix + new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'short', maximumFractionDigits: 10 }).format(amount.value);
+    });
+}
+
+// Seven or more digits read one at a time, with "double" and "triple" for runs
+const PHONE_DIGIT = `(?:(?:double|triple)\\s+)?${DIGIT_WORD}`;
+const PHONE_PATTERN = new RegExp(`\\b${PHONE_DIGIT}(?:[\\s,-]+${PHONE_DIGIT}){6,}\\b`, 'gi');
+const NANP_REGIONS = new Set(['US', 'CA']);
+
+function formatPhoneNumber(digits: string, locale: string): string {
+    const nanp = NANP_REGIONS.has(region(locale));
+    if (digits.length === 7) return nanp ? `${digits.slice(0, 3)}-${digits.slice(3)}` : `${digits.slice(0, 3)} ${digits.slice(3)}`;
+    if (digits.length === 10) {
+        return nanp
+            ? `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`
+            : `${digits.slice(0, 3)} ${digits.slice(3, 6)} ${digits.slice(6)}`;
+    }
+    if (digits.length === 11 && digits.startsWith('1') && nanp) return `+1 ${formatPhoneNumber(digits.slice(1), locale)}`;
+    return digits;
+}
+
+// Phone numbers are 7 or 10 digits, or 11 with a leading country code 1; other lengths are left as words
+const PHONE_LENGTHS = new Set([7, 10, 11]);
+// Digits are only a phone number when the sentence says so; "one two three four five six seven" is counting
+const PHONE_CONTEXT = /\b(?:call(?:ed|ing)?|phone|number|dial(?:ed|ing)?|text|cell|mobile|fax|extension)\b/i;
+
+/**
+ * "call five five five one two three four" → "call 555-1234"; ten digits are grouped as a North
+ * American number for en-US and en-CA, and 3-3-4 elsewhere. Only after words like "call" or "number".
+ */
+export function normalizePhoneNumbers(text: string, locale: string): string {
+    return text.replace(PHONE_PATTERN, (match, offset: number, whole: string) => {
+        if (!precededBy(whole, offset, PHONE_CONTEXT)) return match;
+        let digits = '';
+        const words = splitWords(match.replace(/,/g, ' ')).map(({ word }) => word);
+        for (let i = 0; i < words.length; i++) {
+            const repeat = words[i] === 'double' ? 2 : words[i] === 'triple' ? 3 : 1;
+            if (repeat > 1) i++;
+            digits += String(DIGITS[words[i]]).repeat(repeat);
+        }
+        return PHONE_LENGTHS.has(digits.length) ? formatPhoneNumber(digits, locale) : match;
+    });
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { PagedAudioBuffer } from './pagedAudioBuffer';
+
+const samples = (from: number, count: number) => Float32Array.from({ length: count }, (_, i) => from + i);
+
+describe('PagedAudioBuffer', () => {
+    it('rejects a page size that is not a positive integer', () => {
+        expect(() => new PagedAudioBuffer(16000, 0)).toThrow(RangeError);
+        expect(() => new PagedAudioBuffer(16000, 1.5)).toThrow(RangeError);
+    });
+
+    it('grows across pages as samples are appended', () => {
+        const buffer = new PagedAudioBuffer(4, 4);
+        buffer.append(samples(0, 3));
+        buffer.append(samples(3, 7));
+
+        expect(buffer.length).toBe(10);
+        expect(buffer.duration).toBe(2.5);
+        expect(Array.from(buffer.read())).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    it('reads ranges that cross page boundaries', () => {
+        const buffer = new PagedAudioBuffer(16000, 4);
+        buffer.append(samples(0, 14));
+
+        expect(Array.from(buffer.read(3, 9))).toEqual([3, 4, 5, 6, 7, 8]);
+        expect(Array.from(buffer.read(4, 8))).toEqual([4, 5, 6, 7]);
+        expect(Array.from(buffer.read(11))).toEqual([11, 12, 13]);
+    });
+
+    it('clamps reads to what has been written', () => {
+        const buffer = new PagedAudioBuffer(16000, 4);
+        buffer.append(samples(0, 6));
+
+        expect(Array.from(buffer.read(4, 100))).toEqual([4, 5]);
+        expect(Array.from(buffer.read(-3, 2))).toEqual([0, 1]);
+        expect(buffer.read(10, 20).length).toBe(0);
+        expect(buffer.read(5, 2).length).toBe(0);
+    });
+
+    it('overwrites in place across a page boundary', () => {
+        const buffer = new PagedAudioBuffer(16000, 4);
+        buffer.append(samples(0, 8));
+        buffer.write(2, Float32Array.from([-1, -1, -1, -1]));
+
+        expect(buffer.length).toBe(8);
+        expect(Array.from(buffer.read())).toEqual([0, 1, -1, -1, -1, -1, 6, 7]);
+    });
+
+    it('leaves silence in a gap written past the end', () => {
+        const buffer = new PagedAudioBuffer(16000, 4);
+        buffer.append(samples(1, 2));
+        buffer.write(13, Float32Array.from([5, 6]));
+
+        expect(buffer.length).toBe(15);
+        expect(Array.from(buffer.read())).toEqual([1, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 5, 6]);
+    });
+
+    it('rejects negative or fractional write positions', () => {
+        const buffer = new PagedAudioBuffer(16000, 4);
+        expect(() => buffer.write(-1, samples(0, 2))).toThrow(RangeError);
+        expect(() => buffer.write(1.5, samples(0, 2))).toThrow(RangeError);
+    });
+
+    it('empties when cleared', () => {
+        const buffer = new PagedAudioBuffer(16000, 4);
+        buffer.append(samples(0, 9));
+        buffer.clear();
+
+        expect(buffer.length).toBe(0);
+        expect(buffer.read().length).toBe(0);
+        buffer.append(samples(7, 2));
+        expect(Array.from(buffer.read())).toEqual([7, 8]);
+    });
+});
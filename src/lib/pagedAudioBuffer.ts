@@ -0,0 +1,87 @@
+// Growable sample storage for everything recorded in a session.
+// Samples live in fixed-size pages allocated on demand, so an hour-long session never needs
+// one huge contiguous array or a copy-and-grow on every append. Positions are absolute
+// sample indices; writing past the end leaves silence in the gap.
+
+const DEFAULT_PAGE_SIZE = 16000 * 10;
+
+export class PagedAudioBuffer {
+    readonly sampleRate: number;
+    private readonly pageSize: number;
+    private pages: Float32Array[] = [];
+    private written = 0;
+
+    constructor(sampleRate: number, pageSize = DEFAULT_PAGE_SIZE) {
+        if (!Number.isInteger(pageSize) || pageSize <= 0) {
+            throw new RangeError(`PagedAudioBuffer page size must be a positive integer, got ${pageSize}`);
+        }
+        this.sampleRate = sampleRate;
+        this.pageSize = pageSize;
+    }
+
+    /** Absolute position one past the last sample written. */
+    get length(): number {
+        return this.written;
+    }
+
+    get duration(): number {
+        return this.written / this.sampleRate;
+    }
+
+    /**
+     * Writes samples starting at `position`, overwriting anything already there.
+     */
+    write(position: number, samples: Float32Array): void {
+        if (!Number.isInteger(position) || position < 0) {
+            throw new RangeError(`Write position must be a non-negative integer, got ${position}`);
+        }
+
+        let offset = 0;
+        while (offset < samples.length) {
+            const absolute = position + offset;
+            const page = this.page(Math.floor(absolute / this.pageSize));
+            const pageOffset = absolute % this.pageSize;
+            const count = Math.min(samples.length - offset, this.pageSize - pageOffset);
+            page.set(samples.subarray(offset, offset + count), pageOffset);
+            offset += count;
+        }
+
+        this.written = Math.max(this.written, position + samples.length);
+    }
+
+    append(samples: Float32Array): void {
+        this.write(this.written, samples);
+    }
+
+    /**
+     * Returns a copy of [start, end), clamped to what has been written.
+     */
+    read(start = 0, end: number = this.written): Float32Array {
+        const from = Math.max(0, Math.min(start, this.written));
+        const to = Math.max(from, Math.min(end, this.written));
+        const result = new Float32Array(to - from);
+
+        let position = from;
+        while (position < to) {
+            const pageIndex = Math.floor(position / this.pageSize);
+            const pageOffset = position % this.pageSize;
+            const count = Math.min(to - position, this.pageSize - pageOffset);
+            // Pages inside a gap were never allocated and read as silence
+            const page = this.pages[pageIndex];
+            if (page) result.set(page.subarray(pageOffset, pageOffset + count), position - from);
+            position += count;
+        }
+
+        return result;
+    }
+
+    clear(): void {
+        this.pages = [];
+        this.written = 0;
+    }
+
+    private page(index: number): Float32Array {
+        if (!this.pages[index]) this.pages[index] = new Float32Array(this.pageSize);
+        return this.pages[index];
+    }
+}
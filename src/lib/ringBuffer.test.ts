@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { AudioRingBuffer } from './ringBuffer';
+
+const samples = (from: number, count: number) => Float32Array.from({ length: count }, (_, i) => from + i);
+
+describe('AudioRingBuffer', () => {
+    it('rejects a capacity that is not a positive integer', () => {
+        expect(() => new AudioRingBuffer(0)).toThrow(RangeError);
+        expect(() => new AudioRingBuffer(-4)).toThrow(RangeError);
+        expect(() => new AudioRingBuffer(2.5)).toThrow(RangeError);
+    });
+
+    it('holds everything written until it is full', () => {
+        const ring = new AudioRingBuffer(8);
+        ring.write(samples(0, 5));
+
+        expect(ring.start).toBe(0);
+        expect(ring.end).toBe(5);
+        expect(ring.length).toBe(5);
+        expect(Array.from(ring.read(0))).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('wraps around and keeps absolute positions', () => {
+        const ring = new AudioRingBuffer(8);
+        ring.write(samples(0, 6));
+        ring.write(samples(6, 6));
+
+        expect(ring.start).toBe(4);
+        expect(ring.end).toBe(12);
+        expect(ring.length).toBe(8);
+        expect(Array.from(ring.read(4))).toEqual([4, 5, 6, 7, 8, 9, 10, 11]);
+        expect(ring.at(4)).toBe(4);
+        expect(ring.at(11)).toBe(11);
+    });
+
+    it('keeps only the newest samples of a write larger than the capacity', () => {
+        const ring = new AudioRingBuffer(4);
+        ring.write(samples(0, 3));
+        ring.write(samples(3, 10));
+
+        expect(ring.start).toBe(9);
+        expect(ring.end).toBe(13);
+        expect(Array.from(ring.read(9))).toEqual([9, 10, 11, 12]);
+    });
+
+    it('copies a range across the wrap point into a caller-owned array', () => {
+        const ring = new AudioRingBuffer(8);
+        ring.write(samples(0, 13));
+
+        const target = new Float32Array(4);
+        ring.copyTo(target, 7);
+        expect(Array.from(target)).toEqual([7, 8, 9, 10]);
+        expect(Array.from(ring.read(6, 9))).toEqual([6, 7, 8]);
+    });
+
+    it('refuses to read positions that were overwritten', () => {
+        const ring = new AudioRingBuffer(8);
+        ring.write(samples(0, 12));
+
+        expect(() => ring.at(3)).toThrow(RangeError);
+        expect(() => ring.read(2, 6)).toThrow(RangeError);
+        expect(() => ring.copyTo(new Float32Array(2), 3)).toThrow(RangeError);
+    });
+
+    it('refuses to read positions that have not been written yet', () => {
+        const ring = new AudioRingBuffer(8);
+        ring.write(samples(0, 5));
+
+        expect(() => ring.at(5)).toThrow(RangeError);
+        expect(() => ring.read(3, 7)).toThrow(RangeError);
+        expect(() => ring.copyTo(new Float32Array(3), 4)).toThrow(RangeError);
+    });
+
+    it('returns an empty copy for an empty range', () => {
+        const ring = new AudioRingBuffer(8);
+        ring.write(samples(0, 3));
+
+        expect(ring.read(3).length).toBe(0);
+        expect(ring.read(2, 2).length).toBe(0);
+    });
+
+    it('starts over from position zero once cleared', () => {
+        const ring = new AudioRingBuffer(4);
+        ring.write(samples(0, 10));
+        ring.clear();
+
+        expect(ring.start).toBe(0);
+        expect(ring.end).toBe(0);
+        ring.write(samples(20, 2));
+        expect(Array.from(ring.read(0))).toEqual([20, 21]);
+    });
+});
@@ -0,0 +1,93 @@
+// Fixed-capacity sample storage for the live capture path.
+// Positions are absolute sample indices counted from the first write, so callers can
+// remember "segment started at sample N" without caring where that sits in the ring.
+
+export class AudioRingBuffer {
+    readonly capacity: number;
+    private readonly data: Float32Array;
+    private written = 0;
+
+    constructor(capacity: number) {
+        if (!Number.isInteger(capacity) || capacity <= 0) {
+            throw new RangeError(`AudioRingBuffer capacity must be a positive integer, got ${capacity}`);
+        }
+        this.capacity = capacity;
+        this.data = new Float32Array(capacity);
+    }
+
+    /** Absolute position one past the newest sample. */
+    get end(): number {
+        return this.written;
+    }
+
+    /** Absolute position of the oldest sample still held. */
+    get start(): number {
+        return Math.max(0, this.written - this.capacity);
+    }
+
+    get length(): number {
+        return this.written - this.start;
+    }
+
+    /**
+     * Appends samples, overwriting the oldest ones once the ring is full.
+     */
+    write(samples: Float32Array): void {
+        // Only the newest `capacity` samples can survive a write this large
+        const source = samples.length > this.capacity ? samples.subarray(samples.length - this.capacity) : samples;
+        const skipped = samples.length - source.length;
+        const offset = (this.written + skipped) % this.capacity;
+
+        const firstPart = Math.min(source.length, this.capacity - offset);
+        this.data.set(source.subarray(0, firstPart), offset);
+        if (firstPart < source.length) {
+            this.data.set(source.subarray(firstPart), 0);
+        }
+
+        this.written += samples.length;
+    }
+
+    /**
+     * Reads a single sample by absolute position.
+     */
+    at(position: number): number {
+        this.assertAvailable(position, position + 1);
+        return this.data[position % this.capacity];
+    }
+
+    /**
+     * Copies [start, start + target.length) into `target` without allocating.
+     */
+    copyTo(target: Float32Array, start: number): void {
+        const end = start + target.length;
+        this.assertAvailable(start, end);
+
+        const offset = start % this.capacity;
+        const firstPart = Math.min(target.length, this.capacity - offset);
+        target.set(this.data.subarray(offset, offset + firstPart));
+        if (firstPart < target.length) {
+            target.set(this.data.subarray(0, target.length - firstPart), firstPart);
+        }
+    }
+
+    /**
+     * Returns a copy of [start, end). `end` defaults to the newest sample.
+     */
+    read(start: number, end: number = this.written): Float32Array {
+        const result = new Float32Array(Math.max(0, end - start));
+        if (result.length > 0) this.copyTo(result, start);
+        return result;
+    }
+
+    clear(): void {
+        this.written = 0;
+    }
+
+    private assertAvailable(start: number, end: number) {
+        if (start < this.start || end > this.written || start > end) {
+            throw new RangeError(
+                `Samples [${start}, ${end}) are not available; buffer holds [${this.start}, ${this.written})`
+            );
+        }
+    }
+}
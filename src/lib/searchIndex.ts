@@ -0,0 +1,304 @@
+// On-device full-text search over saved transcripts.
+// An inverted index maps each normalized term to the documents and token positions it occurs at.
+// Positions make phrase queries cheap (consecutive positions), and a sorted term list lets a
+// prefix expand to every indexed term that starts with it.
+
+export interface SearchDocument {
+    id: string;
+    title: string;
+    text: string;
+    updatedAt: number;
+}
+
+export interface Snippet {
+    text: string;
+    // [start, end) character ranges within `text` to highlight
+    highlights: [number, number][];
+}
+
+export interface SearchResult {
+    document: SearchDocument;
+    score: number;
+    // Matches in the text, or null when only the title matched
+    snippet: Snippet | null;
+    titleHighlights: [number, number][];
+}
+
+interface Token {
+    term: string;
+    // Character offsets in the source string
+    start: number;
+    end: number;
+}
+
+interface IndexedDocument {
+    document: SearchDocument;
+    titleTokens: Token[];
+    textTokens: Token[];
+}
+
+type QueryClause = { terms: string[]; prefix: boolean }[];
+
+// Title tokens take positions from 0 and text tokens start here, so a phrase never spans both
+const TEXT_POSITION_OFFSET = 1_000_000;
+const SNIPPET_CONTEXT_TOKENS = 8;
+const SNIPPET_WINDOW_TOKENS = 24;
+const TITLE_BOOST = 2;
+const PHRASE_BOOST = 1.5;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Lowercases and strips diacritics and apostrophes, so "Café" matches "cafe" and "don’t" matches "dont".
+ */
+export function normalizeTerm(word: string): string {
+    return word.normalize('NFD').replace(/\p{M}/gu, '').replace(/['’]/g, '').toLowerCase();
+}
+
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    for (const match of text.matchAll(WORD_PATTERN)) {
+        const start = match.index ?? 0;
+        tokens.push({ term: normalizeTerm(match[0]), start, end: start + match[0].length });
+    }
+    return tokens;
+}
+
+/**
+ * Splits a query into clauses that must all match. `"exact phrase"` is one clause; any other
+ * word is its own clause. A trailing `*` makes a word a prefix, and so does the last word while
+ * the user is still typing it (no trailing space).
+ */
+export function parseQuery(query: string): QueryClause[] {
+    const clauses: QueryClause[] = [];
+    const pattern = /"([^"]*)"?|(\S+)/g;
+    let match: RegExpExecArray | null;
+    let last: { clause: QueryClause; quoted: boolean; end: number } | null = null;
+
+    while ((match = pattern.exec(query))) {
+        const quoted = match[1] !== undefined;
+        const words = (quoted ? match[1] : match[2]).split(/\s+/).filter(Boolean);
+        const clause: QueryClause = [];
+        for (const word of words) {
+            const prefix = word.endsWith('*');
+            // A word with punctuation inside ("e-mail") becomes a phrase of its parts
+            const terms = tokenize(word).map(token => token.term);
+            terms.forEach((term, i) => clause.push({ terms: [term], prefix: prefix && i === terms.length - 1 }));
+        }
+        if (clause.length === 0) continue;
+        clauses.push(clause);
+        last = { clause, quoted, end: pattern.lastIndex };
+    }
+
+    if (last && !last.quoted && last.end === query.length) {
+        last.clause[last.clause.length - 1].prefix = true;
+    }
+    return clauses;
+}
+
+export class SearchIndex {
+    private documents = new Map<string, IndexedDocument>();
+    // term -> document id -> ascending positions
+    private postings = new Map<string, Map<string, number[]>>();
+    private sortedTerms: string[] | null = null;
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    add(document: SearchDocument): void {
+        this.remove(document.id);
+        const titleTokens = tokenize(document.title);
+        const textTokens = tokenize(document.text);
+        this.documents.set(document.id, { document, titleTokens, textTokens });
+
+        const addPosting = (term: string, position: number) => {
+            let docs = this.postings.get(term);
+            if (!docs) {
+                docs = new Map();
+                this.postings.set(term, docs);
+                this.sortedTerms = null;
+            }
+            const positions = docs.get(document.id);
+            if (positions) {
+                positions.push(position);
+            } else {
+                docs.set(document.id, [position]);
+            }
+        };
+        titleTokens.forEach((token, i) => addPosting(token.term, i));
+        textTokens.forEach((token, i) => addPosting(token.term, TEXT_POSITION_OFFSET + i));
+    }
+
+    remove(id: string): void {
+        const indexed = this.documents.get(id);
+        if (!indexed) return;
+        this.documents.delete(id);
+        for (const token of [...indexed.titleTokens, ...indexed.textTokens]) {
+            const docs = this.postings.get(token.term);
+            if (!docs) continue;
+            docs.delete(id);
+            if (docs.size === 0) {
+                this.postings.delete(token.term);
+                this.sortedTerms = null;
+            }
+        }
+    }
+
+    clear(): void {
+        this.documents.clear();
+        this.postings.clear();
+        this.sortedTerms = null;
+    }
+
+    search(query: string, limit = 20): SearchResult[] {
+        const clauses = parseQuery(query);
+        if (clauses.length === 0) return [];
+
+        // Per clause: matching document -> start positions of each match
+        const clauseMatches = clauses.map(clause => this.matchClause(clause));
+        let candidates = [...clauseMatches[0].keys()];
+        for (const matches of clauseMatches.slice(1)) {
+            candidates = candidates.filter(id => matches.has(id));
+        }
+
+        const total = this.documents.size;
+        const results: SearchResult[] = candidates.map(id => {
+            const indexed = this.documents.get(id)!;
+            let score = 0;
+            const titleRanges: [number, number][] = [];
+            const textHits: { position: number; length: number }[] = [];
+
+            clauses.forEach((clause, i) => {
+                const matches = clauseMatches[i];
+                const starts = matches.get(id)!;
+                const idf = Math.log(1 + total / matches.size);
+                const boost = clause.length > 1 ? PHRASE_BOOST : 1;
+                for (const start of starts) {
+                    if (start >= TEXT_POSITION_OFFSET) {
+                        score += idf * boost;
+                        textHits.push({ position: start - TEXT_POSITION_OFFSET, length: clause.length });
+                    } else {
+                        score += idf * boost * TITLE_BOOST;
+                        const first = indexed.titleTokens[start];
+                        const last = indexed.titleTokens[start + clause.length - 1];
+                        titleRanges.push([first.start, last.end]);
+                    }
+                }
+            });
+
+            return {
+                document: indexed.document,
+                // Damp long documents so a short note that is about the query ranks above a long one that mentions it
+                score: score / Math.sqrt(1 + indexed.textTokens.length / 500),
+                snippet: textHits.length > 0 ? buildSnippet(indexed.document.text, indexed.textTokens, textHits) : null,
+                titleHighlights: mergeRanges(titleRanges),
+            };
+        });
+
+        return results
+            .sort((a, b) => b.score - a.score || b.document.updatedAt - a.document.updatedAt)
+            .slice(0, limit);
+    }
+
+    // Every indexed term a query word can stand for
+    private expand(term: string, prefix: boolean): string[] {
+        if (!prefix) return this.postings.has(term) ? [term] : [];
+        if (!this.sortedTerms) this.sortedTerms = [...this.postings.keys()].sort();
+        const terms = this.sortedTerms;
+
+        let lo = 0;
+        let hi = terms.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (terms[mid] < term) lo = mid + 1;
+            else hi = mid;
+        }
+        const expanded: string[] = [];
+        for (let i = lo; i < terms.length && terms[i].startsWith(term); i++) expanded.push(terms[i]);
+        return expanded;
+    }
+
+    // Positions of one query word, merged over its expansions
+    private positionsOf(word: QueryClause[number]): Map<string, Set<number>> {
+        const result = new Map<string, Set<number>>();
+        for (const term of word.terms.flatMap(t => this.expand(t, word.prefix))) {
+            for (const [id, positions] of this.postings.get(term) ?? []) {
+                let set = result.get(id);
+                if (!set) {
+                    set = new Set();
+                    result.set(id, set);
+                }
+                positions.forEach(position => set!.add(position));
+            }
+        }
+        return result;
+    }
+
+    private matchClause(clause: QueryClause): Map<string, number[]> {
+        const words = clause.map(word => this.positionsOf(word));
+        const matches = new Map<string, number[]>();
+
+        for (const [id, firstPositions] of words[0]) {
+            const starts = [...firstPositions]
+                .filter(start => words.every((positions, offset) => positions.get(id)?.has(start + offset)))
+                .sort((a, b) => a - b);
+            if (starts.length > 0) matches.set(id, starts);
+        }
+        return matches;
+    }
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+    const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const range of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push([...range]);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Cuts the stretch of text with the most hits, plus some context, and maps the hits into it.
+ */
+function buildSnippet(text: string, tokens: Token[], hits: { position: number; length: number }[]): Snippet {
+    const sorted = [...hits].sort((a, b) => a.position - b.position);
+
+    // Densest window: the hit whose following window holds the most hits
+    let best = 0;
+    let bestCount = 0;
+    for (let i = 0, j = 0; i < sorted.length; i++) {
+        while (j < sorted.length && sorted[j].position < sorted[i].position + SNIPPET_WINDOW_TOKENS) j++;
+        if (j - i > bestCount) {
+            best = i;
+            bestCount = j - i;
+        }
+    }
+
+    const windowHits = sorted.slice(best, best + bestCount);
+    const firstToken = Math.max(0, windowHits[0].position - SNIPPET_CONTEXT_TOKENS);
+    const lastHit = windowHits[windowHits.length - 1];
+    const lastToken = Math.min(tokens.length - 1, lastHit.position + lastHit.length - 1 + SNIPPET_CONTEXT_TOKENS);
+
+    const from = tokens[firstToken].start;
+    let to = tokens[lastToken].end;
+    // Keep punctuation that closes the last word
+    while (to < text.length && !/\s/.test(text[to])) to++;
+    const prefix = firstToken > 0 ? '…' : '';
+    const suffix = lastToken < tokens.length - 1 ? '…' : '';
+
+    // Line breaks become spaces one for one, so offsets stay valid
+    const body = text.slice(from, to).replace(/\s/g, ' ');
+    const shift = (offset: number) => prefix.length + offset - from;
+    const highlights = mergeRanges(windowHits.map(hit => [
+        shift(tokens[hit.position].start),
+        shift(tokens[hit.position + hit.length - 1].end),
+    ]));
+
+    return { text: prefix + body + suffix, highlights };
+}
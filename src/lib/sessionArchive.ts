@@ -0,0 +1,61 @@
+// Bundles a session's transcript and audio into one zip for archiving.
+
+import { WHISPER_SAMPLE_RATE, encodeWav, normalizePeak } from './audioProcessing';
+import { CaptionOptions, DEFAULT_CAPTION_OPTIONS, EXPORT_FORMATS, TranscriptExportInput, exportTranscript } from './transcriptExport';
+import { ZipEntry, createZip } from './zip';
+
+export interface SessionAudio {
+    // One entry per microphone recording: mono at the device rate, before any normalization
+    rawTakes: { sampleRate: number; audio: Float32Array }[];
+    // The whole session timeline at 16kHz, recordings and uploaded files included
+    timeline: Float32Array;
+    // WebM/Opus captured alongside each recording, when enabled
+    compressedTakes: Blob[];
+}
+
+export const WEBM_OPUS_MIME_TYPE = 'audio/webm;codecs=opus';
+
+export function isCompressedCaptureSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(WEBM_OPUS_MIME_TYPE);
+}
+
+export async function buildSessionArchive(
+    transcript: TranscriptExportInput,
+    audio: SessionAudio,
+    captionOptions: CaptionOptions = DEFAULT_CAPTION_OPTIONS,
+    exportedAt: Date = new Date()
+): Promise<Blob> {
+    const entries: ZipEntry[] = [];
+
+    for (const format of EXPORT_FORMATS) {
+        if (format.needsSegments && transcript.segments.length === 0) continue;
+        entries.push({
+            name: `transcript.${format.extension}`,
+            data: exportTranscript(format.id, transcript, captionOptions, exportedAt),
+            modified: exportedAt,
+        });
+    }
+
+    if (audio.timeline.length > 0) {
+        entries.push({
+            name: 'audio/session-16khz-normalized.wav',
+            data: encodeWav(normalizePeak(audio.timeline).audio, WHISPER_SAMPLE_RATE),
+            modified: exportedAt,
+        });
+    }
+
+    audio.rawTakes.forEach((take, i) => {
+        if (take.audio.length === 0) return;
+        entries.push({
+            name: `audio/raw-take-${i + 1}-${take.sampleRate}hz.wav`,
+            data: encodeWav(take.audio, take.sampleRate),
+            modified: exportedAt,
+        });
+    });
+
+    audio.compressedTakes.forEach((blob, i) => {
+        entries.push({ name: `audio/take-${i + 1}.webm`, data: blob, modified: exportedAt });
+    });
+
+    return createZip(entries);
+}
@@ -0,0 +1,210 @@
+// Session library kept in IndexedDB, so a dictation survives reloads and can be reopened later.
+// Metadata and transcript live in one store and the audio in another, keyed by the same id,
+// so listing sessions never has to read audio blobs.
+// The same database holds the draft of an in-progress recording, checkpointed often enough that
+// a crash loses only seconds; its audio is appended in chunks rather than rewritten each time.
+
+import { TranscriptSegment } from './transcript';
+import { WhisperModelConfig } from './whisperModels';
+
+const DB_NAME = 'voicerefine';
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions';
+const AUDIO_STORE = 'audio';
+const DRAFT_STORE = 'draft';
+const DRAFT_CHUNKS_STORE = 'draftChunks';
+const DRAFT_KEY = 'current';
+
+export interface SessionRecord {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    // The editable transcript, and the refined output as last shown
+    text: string;
+    refinedText: string;
+    segments: TranscriptSegment[];
+    model: WhisperModelConfig;
+    // Seconds of audio on the transcript timeline
+    duration: number;
+}
+
+export interface DraftRecord {
+    // The library session being recorded into, if it had been saved yet
+    sessionId: string | null;
+    title: string | null;
+    createdAt: number;
+    updatedAt: number;
+    text: string;
+    segments: TranscriptSegment[];
+    // Timeline seconds already transcribed; the audio after this still needs transcribing
+    committedEnd: number;
+    // Timeline samples held in the draft's chunks
+    samples: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+                }
+                if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+                    db.createObjectStore(AUDIO_STORE);
+                }
+                if (!db.objectStoreNames.contains(DRAFT_STORE)) {
+                    db.createObjectStore(DRAFT_STORE);
+                }
+                if (!db.objectStoreNames.contains(DRAFT_CHUNKS_STORE)) {
+                    db.createObjectStore(DRAFT_CHUNKS_STORE, { autoIncrement: true });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch(err => {
+            // Let a later call try again, e.g. after the user allows storage
+            dbPromise = null;
+            throw err;
+        });
+    }
+    return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+    });
+}
+
+export function createSessionId(): string {
+    return crypto.randomUUID();
+}
+
+/**
+ * e.g. "Dictation, Oct 19, 14:30"
+ */
+export function defaultSessionTitle(date: Date = new Date()): string {
+    return `Dictation, ${date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`;
+}
+
+/**
+ * Newest first.
+ */
+export async function listSessions(): Promise<SessionRecord[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readonly');
+    const records = await requestToPromise(tx.objectStore(SESSIONS_STORE).index('updatedAt').getAll());
+    return (records as SessionRecord[]).reverse();
+}
+
+export async function getSession(id: string): Promise<SessionRecord | undefined> {
+    const db = await openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(SESSIONS_STORE).get(id)) as Promise<SessionRecord | undefined>;
+}
+
+export async function getSessionAudio(id: string): Promise<Blob | undefined> {
+    const db = await openDatabase();
+    const tx = db.transaction(AUDIO_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(AUDIO_STORE).get(id)) as Promise<Blob | undefined>;
+}
+
+/**
+ * Writes the record, and the audio too when given; `null` removes stored audio.
+ */
+export async function saveSession(record: SessionRecord, audio?: Blob | null): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, AUDIO_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).put(record);
+    if (audio) {
+        tx.objectStore(AUDIO_STORE).put(audio, record.id);
+    } else if (audio === null) {
+        tx.objectStore(AUDIO_STORE).delete(record.id);
+    }
+    return transactionDone(tx);
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = tx.objectStore(SESSIONS_STORE);
+    const record = await requestToPromise(store.get(id)) as SessionRecord | undefined;
+    if (!record) throw new Error('Session not found');
+    store.put({ ...record, title, updatedAt: Date.now() });
+    return transactionDone(tx);
+}
+
+export async function duplicateSession(id: string): Promise<SessionRecord> {
+    const [record, audio] = await Promise.all([getSession(id), getSessionAudio(id)]);
+    if (!record) throw new Error('Session not found');
+    const now = Date.now();
+    const copy: SessionRecord = { ...record, id: createSessionId(), title: `${record.title} (copy)`, createdAt: now, updatedAt: now };
+    await saveSession(copy, audio);
+    return copy;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, AUDIO_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(id);
+    tx.objectStore(AUDIO_STORE).delete(id);
+    return transactionDone(tx);
+}
+
+/**
+ * Writes the draft's metadata and appends `chunk` to its audio in one transaction, so the two
+ * never disagree. `restart` drops the audio of any earlier draft first.
+ */
+export async function checkpointDraft(draft: DraftRecord, chunk: Float32Array | null, restart = false): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([DRAFT_STORE, DRAFT_CHUNKS_STORE], 'readwrite');
+    const chunks = tx.objectStore(DRAFT_CHUNKS_STORE);
+    if (restart) chunks.clear();
+    if (chunk && chunk.length > 0) chunks.add(chunk);
+    tx.objectStore(DRAFT_STORE).put(draft, DRAFT_KEY);
+    return transactionDone(tx);
+}
+
+export async function readDraft(): Promise<{ draft: DraftRecord; audio: Float32Array } | null> {
+    const db = await openDatabase();
+    const tx = db.transaction([DRAFT_STORE, DRAFT_CHUNKS_STORE], 'readonly');
+    const [draft, chunks] = await Promise.all([
+        requestToPromise(tx.objectStore(DRAFT_STORE).get(DRAFT_KEY)) as Promise<DraftRecord | undefined>,
+        requestToPromise(tx.objectStore(DRAFT_CHUNKS_STORE).getAll()) as Promise<Float32Array[]>,
+    ]);
+    if (!draft) return null;
+
+    const audio = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        audio.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return { draft, audio };
+}
+
+export async function clearDraft(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([DRAFT_STORE, DRAFT_CHUNKS_STORE], 'readwrite');
+    tx.objectStore(DRAFT_STORE).clear();
+    tx.objectStore(DRAFT_CHUNKS_STORE).clear();
+    return transactionDone(tx);
+}
@@ -0,0 +1,136 @@
+// Fitting dictated text into the middle of existing text: spacing on both sides of the caret,
+// and casing and end punctuation that suit the sentence it lands in.
+
+export interface InsertionResult {
+    text: string;
+    // Caret position right after the inserted text
+    caret: number;
+}
+
+// No space after these, e.g. "(" and "["
+const OPENING_MARK = /[([{¿¡]$/;
+// No space before these
+const CLOSING_MARK = /^[,.;:!?)\]}%]/;
+
+/**
+ * Whether text ending like this is followed by the start of a new sentence.
+ */
+export function endsSentence(text: string): boolean {
+    return text.trim() === '' || /[.!?]["')\]]?\s*$/.test(text) || /\n\s*$/.test(text);
+}
+
+export function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Joins two pieces of text with a single space between them where one is needed.
+ */
+export function joinText(before: string, after: string): string {
+    if (!before || !after) return before + after;
+    if (/\s$/.test(before) || /^\s/.test(after) || OPENING_MARK.test(before) || CLOSING_MARK.test(after)) {
+        return before + after;
+    }
+    return `${before} ${after}`;
+}
+
+/**
+ * Adjusts a dictated result for where it is going. Whisper writes every result as a full
+ * sentence, so in the middle of one the leading capital and the final period are dropped;
+ * capitals that are not just sentence case ("I", "NASA", "McDonald") are kept.
+ */
+export function fitToInsertionPoint(insertion: string, before: string, after: string): string {
+    let text = insertion.trim();
+    if (!text) return text;
+
+    if (endsSentence(before)) {
+        text = capitalize(text);
+    } else {
+        const firstWord = text.match(/^[\p{L}']+/u)?.[0] ?? '';
+        const isSentenceCase = /^\p{Lu}[\p{Ll}']+$/u.test(firstWord) && !/^I'/.test(firstWord);
+        if (isSentenceCase) text = text.charAt(0).toLowerCase() + text.slice(1);
+    }
+
+    // The sentence carries on after the caret
+    if (/^\s*\p{Ll}/u.test(after)) text = text.replace(/(?<!\.)\.$/, '');
+    return text;
+}
+
+/**
+ * Inserts `insertion` in place of the `start`–`end` selection (a caret when they are equal).
+ * `rewrite`, given the text before the selection and the fitted insertion, can return what the
+ * text up to the caret becomes instead of the two joined (voice commands edit both).
+ */
+export function insertAtSelection(
+    text: string,
+    start: number,
+    end: number,
+    insertion: string,
+    rewrite?: (before: string, fitted: string) => string
+): InsertionResult {
+    const before = text.slice(0, start);
+    const after = text.slice(end);
+    const fitted = fitToInsertionPoint(insertion, before, after);
+    const joined = rewrite ? rewrite(before, fitted) : joinText(before, fitted);
+    return { text: joinText(joined, after), caret: joined.length };
+}
+
+// A word's leading punctuation, the word itself, and its trailing punctuation
+function splitWord(word: string): [string, string, string] {
+    const [, lead, core, trail] = word.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u)!;
+    return core ? [lead, core, trail] : ['', word, ''];
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// How many words either side are tried to tell repeated occurrences of the word apart
+const MAX_CONTEXT_WORDS = 3;
+
+/**
+ * Replaces word `index` of `words` (a transcript segment) where it occurs in `text`, or removes it
+ * when `replacement` is empty. The text may have been fitted into a sentence since, so casing and
+ * punctuation around the words are not compared; just enough neighbouring words are matched to
+ * find a single occurrence. Null when the words are no longer there, or are there more than once.
+ */
+export function replaceWordInText(text: string, words: string[], index: number, replacement: string): string | null {
+    const punctuation = '[^\\p{L}\\p{N}\\s]*';
+    const [wordLead, wordCore, wordTrail] = splitWord(words[index]);
+
+    for (let context = 0; context <= MAX_CONTEXT_WORDS; context++) {
+        const before = words.slice(Math.max(0, index - context), index)
+            .map(word => `${punctuation}${escapeRegExp(splitWord(word)[1])}${punctuation}\\s+`)
+            .join('');
+        const after = words.slice(index + 1, index + 1 + context)
+            .map(word => `\\s+${punctuation}${escapeRegExp(splitWord(word)[1])}${punctuation}`)
+            .join('');
+        const pattern = new RegExp(
+            `(?<![\\p{L}\\p{N}])(${before})(${punctuation})(${escapeRegExp(wordCore)})(${punctuation})(?=${after}(?![\\p{L}\\p{N}]))`,
+            'giu'
+        );
+        const matches = Array.from(text.matchAll(pattern));
+        if (matches.length === 0) return null;
+        if (matches.length > 1) continue;
+
+        const [, prefix, lead, core, trail] = matches[0];
+        const start = matches[0].index! + prefix.length;
+        const end = start + lead.length + core.length + trail.length;
+
+        if (!replacement.trim()) {
+            return joinText(text.slice(0, start).replace(/[^\S\n]+$/, ''), text.slice(end).replace(/^[^\S\n]+/, ''));
+        }
+
+        let [newLead, newCore, newTrail] = splitWord(replacement.trim());
+        // Keep the casing the word was given in the text, e.g. capitalized at a sentence start
+        const isUpper = (word: string) => word.charAt(0) !== word.charAt(0).toLowerCase();
+        if (isUpper(core) !== isUpper(wordCore)) {
+            newCore = (isUpper(core) ? newCore.charAt(0).toUpperCase() : newCore.charAt(0).toLowerCase()) + newCore.slice(1);
+        }
+        // The text's own punctuation stays, unless the replacement brings different punctuation
+        if (!newLead || newLead === wordLead) newLead = lead;
+        if (!newTrail || newTrail === wordTrail) newTrail = trail;
+        return text.slice(0, start) + newLead + newCore + newTrail + text.slice(end);
+    }
+    return null;
+}
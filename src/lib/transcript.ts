@@ -0,0 +1,99 @@
+// Structured transcript built from committed results.
+// Every recording and uploaded file is placed end to end on one timeline, so segment times
+// stay increasing across takes and can be used for playback and subtitle export.
+
+import { JobSource } from './workerProtocol';
+import { TimedWord } from './transcriptStitching';
+
+// A word of a segment with Whisper's confidence in it, where known
+export interface SegmentWord {
+    text: string;
+    confidence?: number;
+    alternatives?: string[];
+}
+
+export interface TranscriptSegment {
+    id: string;
+    text: string;
+    // The words of `text` with their scores; absent for segments saved without them
+    words?: SegmentWord[];
+    // Seconds from the start of the transcript timeline
+    start: number;
+    end: number;
+    source: JobSource;
+    jobId: string;
+}
+
+/**
+ * Groups a result's words back into Whisper's segments and shifts them onto the timeline.
+ * `offsetSeconds` is where the job's audio window starts; words removed by stitching are
+ * simply absent, so a segment that lost its first words starts at its first kept word.
+ */
+export function buildSegments(
+    words: TimedWord[],
+    offsetSeconds: number,
+    jobId: string,
+    source: JobSource
+): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    let group: TimedWord[] = [];
+
+    const close = () => {
+        if (group.length === 0) return;
+        const scored = group.some(word => word.confidence !== undefined);
+        segments.push({
+            id: `${jobId}-${group[0].chunk}`,
+            text: group.map(word => word.text).join(' '),
+            words: scored
+                ? group.map(({ text, confidence, alternatives }) => ({ text, confidence, alternatives }))
+                : undefined,
+            start: offsetSeconds + group[0].start,
+            end: offsetSeconds + group[group.length - 1].end,
+            source,
+            jobId,
+        });
+        group = [];
+    };
+
+    for (const word of words) {
+        if (group.length > 0 && word.chunk !== group[0].chunk) close();
+        group.push(word);
+    }
+    close();
+
+    return segments;
+}
+
+/**
+ * The words of `text`, keeping the scores of `words` where the two still agree. Words are matched
+ * from both ends, so an edit in the middle (a dictionary fix, a correction) only loses its own scores.
+ */
+export function alignSegmentWords(words: SegmentWord[], text: string): SegmentWord[] {
+    const tokens = text.trim().split(/\s+/).filter(Boolean);
+    let head = 0;
+    while (head < tokens.length && head < words.length && tokens[head] === words[head].text) head++;
+    let tail = 0;
+    while (
+        tail < tokens.length - head
+        && tail < words.length - head
+        && tokens[tokens.length - 1 - tail] === words[words.length - 1 - tail].text
+    ) tail++;
+
+    return tokens.map((token, i) => {
+        if (i < head) return words[i];
+        if (i >= tokens.length - tail) return words[words.length - (tokens.length - i)];
+        return { text: token };
+    });
+}
+
+/**
+ * Formats seconds as m:ss, or h:mm:ss past the hour.
+ */
+export function formatTimestamp(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    const ss = String(s).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+}
@@ -0,0 +1,187 @@
+// Client-side transcript export: plain text, Markdown, JSON and SRT/WebVTT captions.
+// Captions are cut from the timestamped segments so no cue spans two segments, and each cue
+// is kept within the configured line length, line count and duration.
+
+import { TranscriptSegment, formatTimestamp } from './transcript';
+import { chunksToWords } from './transcriptStitching';
+
+export type ExportFormat = 'txt' | 'md' | 'json' | 'srt' | 'vtt';
+
+export interface ExportFormatInfo {
+    id: ExportFormat;
+    label: string;
+    extension: string;
+    mimeType: string;
+    // Captions and JSON are built from segments, so they need at least one
+    needsSegments: boolean;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+    { id: 'txt', label: 'Plain text', extension: 'txt', mimeType: 'text/plain', needsSegments: false },
+    { id: 'md', label: 'Markdown', extension: 'md', mimeType: 'text/markdown', needsSegments: false },
+    { id: 'json', label: 'JSON (segments)', extension: 'json', mimeType: 'application/json', needsSegments: true },
+    { id: 'srt', label: 'SubRip captions', extension: 'srt', mimeType: 'application/x-subrip', needsSegments: true },
+    { id: 'vtt', label: 'WebVTT captions', extension: 'vtt', mimeType: 'text/vtt', needsSegments: true },
+];
+
+export interface CaptionOptions {
+    maxLineLength: number;
+    maxLines: number;
+    maxCaptionSeconds: number;
+}
+
+// 42 characters over two lines is the common broadcast subtitle limit
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+    maxLineLength: 42,
+    maxLines: 2,
+    maxCaptionSeconds: 6,
+};
+
+export interface Caption {
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+export interface TranscriptExportInput {
+    // The text as shown to the user (refined)
+    text: string;
+    rawText: string;
+    segments: TranscriptSegment[];
+}
+
+/**
+ * Greedy word wrap. A single word longer than `maxLength` gets a line of its own.
+ */
+export function wrapLines(text: string, maxLength: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (line && line.length + 1 + word.length > maxLength) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+}
+
+export function buildCaptions(segments: TranscriptSegment[], options: CaptionOptions = DEFAULT_CAPTION_OPTIONS): Caption[] {
+    const captions: Caption[] = [];
+
+    for (const segment of segments) {
+        // Segments keep no word times, so they are estimated by character length
+        const words = chunksToWords([{ text: segment.text, timestamp: [segment.start, segment.end] }], segment.text, segment.end);
+        let current: typeof words = [];
+
+        const flush = () => {
+            if (current.length === 0) return;
+            captions.push({
+                start: current[0].start,
+                end: current[current.length - 1].end,
+                lines: wrapLines(current.map(word => word.text).join(' '), options.maxLineLength),
+            });
+            current = [];
+        };
+
+        for (const word of words) {
+            if (current.length > 0) {
+                const text = [...current, word].map(w => w.text).join(' ');
+                const tooLong = wrapLines(text, options.maxLineLength).length > options.maxLines;
+                const tooSlow = word.end - current[0].start > options.maxCaptionSeconds;
+                if (tooLong || tooSlow) flush();
+            }
+            current.push(word);
+        }
+        flush();
+    }
+
+    return captions;
+}
+
+function formatCaptionTime(seconds: number, separator: ',' | '.'): string {
+    const ms = Math.max(0, Math.round(seconds * 1000));
+    const h = Math.floor(ms / 3600000);
+    const m = Math.floor((ms % 3600000) / 60000);
+    const s = Math.floor((ms % 60000) / 1000);
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(captions: Caption[]): string {
+    return captions
+        .map((caption, i) => `${i + 1}\n${formatCaptionTime(caption.start, ',')} --> ${formatCaptionTime(caption.end, ',')}\n${caption.lines.join('\n')}\n`)
+        .join('\n');
+}
+
+export function toVtt(captions: Caption[]): string {
+    const cues = captions.map(caption =>
+        `${formatCaptionTime(caption.start, '.')} --> ${formatCaptionTime(caption.end, '.')}\n${caption.lines.join('\n')}\n`
+    );
+    return ['WEBVTT\n', ...cues].join('\n');
+}
+
+function toMarkdown({ text, segments }: TranscriptExportInput, exportedAt: Date): string {
+    const parts = [`# Transcript`, `_Exported ${exportedAt.toLocaleString()}_`, text.trim() || '_No text_'];
+    if (segments.length > 0) {
+        parts.push('## Segments');
+        parts.push(segments.map(segment => `- **[${formatTimestamp(segment.start)}]** ${segment.text}`).join('\n'));
+    }
+    return parts.join('\n\n') + '\n';
+}
+
+function toJson({ text, rawText, segments }: TranscriptExportInput, exportedAt: Date): string {
+    return JSON.stringify({
+        version: 1,
+        exportedAt: exportedAt.toISOString(),
+        text,
+        rawText,
+        segments: segments.map(({ start, end, text, source }) => ({
+            start: Number(start.toFixed(3)),
+            end: Number(end.toFixed(3)),
+            text,
+            source,
+        })),
+    }, null, 2);
+}
+
+export function exportTranscript(
+    format: ExportFormat,
+    input: TranscriptExportInput,
+    options: CaptionOptions = DEFAULT_CAPTION_OPTIONS,
+    exportedAt: Date = new Date()
+): string {
+    switch (format) {
+        case 'txt':
+            return input.text.trim() + '\n';
+        case 'md':
+            return toMarkdown(input, exportedAt);
+        case 'json':
+            return toJson(input, exportedAt);
+        case 'srt':
+            return toSrt(buildCaptions(input.segments, options));
+        case 'vtt':
+            return toVtt(buildCaptions(input.segments, options));
+    }
+}
+
+/**
+ * e.g. transcript-2024-05-01-1430.srt
+ */
+export function exportFileName(extension: string, date: Date = new Date(), base = 'transcript'): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+    return `${base}-${stamp}.${extension}`;
+}
+
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Give the download a moment to start before the URL goes away
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { TimedWord, attachWordTimestamps, chunksToWords, stitchOverlap } from './transcriptStitching';
+
+// Words spoken one after another, `step` seconds each
+const spoken = (text: string, from = 0, step = 0.4): TimedWord[] =>
+    text.split(' ').map((word, i) => ({ text: word, start: from + i * step, end: from + (i + 1) * step, chunk: 0 }));
+
+const texts = (words: TimedWord[]) => words.map(word => word.text).join(' ');
+
+describe('chunksToWords', () => {
+    it('uses the times Whisper aligned the words to', () => {
+        const [segment] = attachWordTimestamps(
+            [{ text: ' Hello there, world.', timestamp: [0, 5] }],
+            [
+                { text: ' Hello', timestamp: [0.2, 0.6] },
+                { text: ' there,', timestamp: [0.6, 1.1] },
+                { text: ' world.', timestamp: [3.5, 4] },
+            ]
+        );
+        expect(chunksToWords([segment], segment.text, 5).map(({ start, end }) => [start, end]))
+            .toEqual([[0.2, 0.6], [0.6, 1.1], [3.5, 4]]);
+    });
+
+    it('joins words Whisper split apart where the text does not', () => {
+        const [segment] = attachWordTimestamps(
+            [{ text: ' a well-known fact', timestamp: [0, 3] }],
+            [
+                { text: ' a', timestamp: [0, 0.2] },
+                { text: ' well', timestamp: [0.2, 0.5] },
+                { text: '-known', timestamp: [0.5, 0.9] },
+                { text: ' fact', timestamp: [1, 1.4] },
+            ]
+        );
+        expect(chunksToWords([segment], segment.text, 3).map(({ text, start, end }) => [text, start, end]))
+            .toEqual([['a', 0, 0.2], ['well-known', 0.2, 0.9], ['fact', 1, 1.4]]);
+    });
+
+    it('hands each word to the segment it was said in', () => {
+        const segments = attachWordTimestamps(
+            [{ text: ' One two.', timestamp: [0, 2] }, { text: ' Three.', timestamp: [2, 4] }],
+            [
+                { text: ' One', timestamp: [0, 0.5] },
+                { text: ' two.', timestamp: [0.5, 1.8] },
+                { text: ' Three.', timestamp: [2.1, 3] },
+            ]
+        );
+        expect(segments.map(segment => segment.words?.map(word => word.text))).toEqual([['One', 'two.'], ['Three.']]);
+    });
+
+    it('estimates word times from the segment when the text no longer matches the words', () => {
+        const words = chunksToWords(
+            [{ text: ' one two', timestamp: [0, 2], words: [{ text: 'one', start: 1.5, end: 1.6 }] }],
+            'one two',
+            2
+        );
+        expect(words.map(({ start, end }) => [start, end])).toEqual([[0, 1], [1, 2]]);
+    });
+});
+
+describe('stitchOverlap', () => {
+    it('drops a repeat of the previous window\'s very last word', () => {
+        const result = stitchOverlap(spoken('we went to the store'), spoken('store and bought milk'), 1);
+        expect(texts(result.words)).toBe('and bought milk');
+        expect(result.aligned).toBe(true);
+    });
+
+    it('looks past punctuation standing on its own at the end of the previous window', () => {
+        const previous = [
+            ...spoken('we went to the sto'),
+            { text: '-', start: 2, end: 2.1, chunk: 0 },
+            { text: '...', start: 2.1, end: 2.2, chunk: 0 },
+        ];
+        expect(texts(stitchOverlap(previous, spoken('the store and bought milk'), 1).words)).toBe('store and bought milk');
+    });
+
+    it('drops a repeated run and the fragment before it', () => {
+        const result = stitchOverlap(spoken('we went to the store'), spoken('he store and bought milk'), 1);
+        expect(texts(result.words)).toBe('and bought milk');
+    });
+
+    it('cuts by timing when no words match', () => {
+        const result = stitchOverlap(spoken('we went to the store'), spoken('sto and bought milk', 0, 0.6), 1);
+        expect(texts(result.words)).toBe('bought milk');
+        expect(result.aligned).toBe(false);
+    });
+});
@@ -0,0 +1,170 @@
+// Joins transcripts of overlapping audio windows.
+// A window that starts right where the previous one was cut re-hears the last second of it,
+// so a word straddling the cut is decoded whole at least once. The words the two windows
+// then share are removed from the newer one before it is committed.
+
+import { WhisperChunk, WordTimestamp } from './workerProtocol';
+
+// Audio each window repeats from the end of the one before it
+export const WINDOW_OVERLAP_SECONDS = 1;
+
+export interface TimedWord {
+    text: string;
+    // Seconds from the start of the window
+    start: number;
+    end: number;
+    // Index of the Whisper segment the word came from
+    chunk: number;
+    confidence?: number;
+    alternatives?: string[];
+}
+
+export interface StitchResult {
+    words: TimedWord[];
+    dropped: number;
+    // Whether the repeat was found by aligning text, rather than cut by timing alone
+    aligned: boolean;
+}
+
+// Whisper's word times drift a little, and are only estimated when it cannot align words,
+// so a repeated word can sit this far past the overlap
+const TIMING_TOLERANCE_SECONDS = 0.5;
+// How many words at the end of the previous window are searched for the repeat
+const MAX_TAIL_WORDS = 12;
+// The previous window's last word may itself be a fragment of the word that was cut
+const MAX_TRAILING_FRAGMENTS = 1;
+
+/**
+ * Hands each word Whisper aligned to the segment its middle falls in. The pipeline returns
+ * either segments or words, so the worker decodes both from the same tokens and joins them here.
+ */
+export function attachWordTimestamps(segments: WhisperChunk[], words: WhisperChunk[]): WhisperChunk[] {
+    const grouped: WordTimestamp[][] = segments.map(() => []);
+    let segment = 0;
+    for (const word of words) {
+        const start = word.timestamp[0] ?? 0;
+        const end = Math.max(start, word.timestamp[1] ?? start);
+        const middle = (start + end) / 2;
+        while (segment < segments.length - 1 && middle >= (segments[segment + 1].timestamp[0] ?? Infinity)) segment++;
+        grouped[segment]?.push({ text: word.text.trim(), start, end });
+    }
+    return segments.map((chunk, i) => ({ ...chunk, words: grouped[i] }));
+}
+
+/**
+ * Splits Whisper's timestamped segments into words. Where a segment carries Whisper's aligned
+ * words those times are used; otherwise (a model that cannot align words, or a segment the
+ * hallucination filter rewrote) its span is shared out across its words by character length.
+ */
+export function chunksToWords(chunks: WhisperChunk[] | undefined, text: string, duration: number): TimedWord[] {
+    const segments: WhisperChunk[] = chunks && chunks.length > 0 ? chunks : [{ text, timestamp: [0, duration] }];
+    const words: TimedWord[] = [];
+
+    segments.forEach((segment, chunk) => {
+        const tokens = segment.text.trim().split(/\s+/).filter(Boolean);
+        if (tokens.length === 0) return;
+
+        const aligned = segment.words && alignWordTimes(tokens, segment.words);
+        if (aligned) {
+            tokens.forEach((token, i) => words.push({ text: token, ...aligned[i], chunk }));
+            return;
+        }
+
+        const start = segment.timestamp[0] ?? 0;
+        const end = Math.max(start, segment.timestamp[1] ?? duration);
+        const totalWeight = tokens.reduce((sum, token) => sum + token.length + 1, 0);
+
+        let position = start;
+        for (const token of tokens) {
+            const length = ((token.length + 1) / totalWeight) * (end - start);
+            words.push({ text: token, start: position, end: position + length, chunk });
+            position += length;
+        }
+    });
+
+    return words;
+}
+
+/**
+ * Times for `tokens` (the segment's text split on spaces) from Whisper's aligned words, which
+ * split the same text a little differently: "well-known" may be two words, punctuation may stand
+ * alone. Each token spans the words its characters fall in. Null if the texts differ.
+ */
+function alignWordTimes(tokens: string[], words: WordTimestamp[]): { start: number; end: number }[] | null {
+    const compact = (value: string) => value.replace(/\s+/g, '');
+    const timed = words.filter(word => compact(word.text));
+    if (timed.length === 0 || tokens.join('') !== timed.map(word => compact(word.text)).join('')) return null;
+
+    const times: { start: number; end: number }[] = [];
+    // Characters of the words before `first`
+    let consumed = 0;
+    let first = 0;
+    let position = 0;
+    for (const token of tokens) {
+        const from = position;
+        position += token.length;
+        while (consumed + compact(timed[first].text).length <= from) consumed += compact(timed[first++].text).length;
+
+        let last = first;
+        let reached = consumed + compact(timed[last].text).length;
+        while (reached < position) reached += compact(timed[++last].text).length;
+
+        const start = Math.max(timed[first].start, times.length > 0 ? times[times.length - 1].start : 0);
+        times.push({ start, end: Math.max(start, timed[last].end) });
+    }
+    return times;
+}
+
+function normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Removes the words at the start of `current` that repeat the end of `previous`.
+ * The longest run of early `current` words that also ends `previous` is taken as the repeat;
+ * any words before that run are fragments of the cut and go with it. Without a textual match,
+ * words whose centre falls inside the overlap are dropped on timing alone.
+ */
+export function stitchOverlap(previous: TimedWord[], current: TimedWord[], overlapSeconds: number): StitchResult {
+    if (overlapSeconds <= 0 || current.length === 0) {
+        return { words: current, dropped: 0, aligned: false };
+    }
+
+    let candidates = 0;
+    while (candidates < current.length && current[candidates].start < overlapSeconds + TIMING_TOLERANCE_SECONDS) {
+        candidates++;
+    }
+
+    const head = current.slice(0, candidates).map(word => normalizeWord(word.text));
+    // Punctuation on its own is not a word to match, and would push the previous window's last
+    // word out of reach of the search
+    const tail = previous.map(word => normalizeWord(word.text)).filter(Boolean).slice(-MAX_TAIL_WORDS);
+
+    let best = { skip: 0, length: 0 };
+    for (let skip = 0; skip < head.length; skip++) {
+        for (let length = Math.min(head.length - skip, tail.length); length > best.length; length--) {
+            if (runEndsTail(head.slice(skip, skip + length), tail)) {
+                best = { skip, length };
+                break;
+            }
+        }
+    }
+
+    if (best.length > 0) {
+        const dropped = best.skip + best.length;
+        return { words: current.slice(dropped), dropped, aligned: true };
+    }
+
+    const words = current.filter(word => (word.start + word.end) / 2 >= overlapSeconds);
+    return { words, dropped: current.length - words.length, aligned: false };
+}
+
+// Whether `run` ends the tail, counting a run that reaches its very last word
+function runEndsTail(run: string[], tail: string[]): boolean {
+    for (let end = tail.length; end >= tail.length - MAX_TRAILING_FRAGMENTS; end--) {
+        const offset = end - run.length;
+        if (offset < 0) break;
+        if (run.every((word, i) => word !== '' && word === tail[offset + i])) return true;
+    }
+    return false;
+}
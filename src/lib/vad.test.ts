@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { VadSegment, VoiceActivitySegmenter } from './vad';
+
+const SAMPLE_RATE = 16000;
+
+// A low hum whose loudness follows `amplitude` (per second of audio)
+function hum(seconds: number, amplitude: (t: number) => number): Float32Array {
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    for (let i = 0; i < samples.length; i++) {
+        const t = i / SAMPLE_RATE;
+        samples[i] = amplitude(t) * Math.sin(2 * Math.PI * 120 * t);
+    }
+    return samples;
+}
+
+function run(vad: VoiceActivitySegmenter, audio: Float32Array): VadSegment[] {
+    const segments: VadSegment[] = [];
+    for (let i = 0; i < audio.length; i += 1600) segments.push(...vad.push(audio.subarray(i, i + 1600)));
+    return segments;
+}
+
+describe('VoiceActivitySegmenter noise floor', () => {
+    it('stops counting a lasting rise in background noise as speech', () => {
+        const vad = new VoiceActivitySegmenter(SAMPLE_RATE);
+        run(vad, hum(1, () => 0.001));
+        // A fan turns on and keeps going
+        const segments = run(vad, hum(40, () => 0.05));
+
+        expect(vad.getStats().isSpeaking).toBe(false);
+        expect(segments.filter(segment => segment.reason === 'max-length')).toHaveLength(0);
+    });
+
+    it('keeps steady speech that dips between syllables as one segment', () => {
+        const vad = new VoiceActivitySegmenter(SAMPLE_RATE);
+        run(vad, hum(1, () => 0.001));
+        // Loud syllables with softer sounds between them, never a pause
+        const segments = run(vad, hum(12, t => (t % 0.3 < 0.2 ? 0.2 : 0.02)));
+
+        expect(segments).toHaveLength(0);
+        expect(vad.getStats().isSpeaking).toBe(true);
+        // The floor only rose to the soft sounds, well below the syllables
+        expect(vad.getStats().threshold).toBeLessThan(0.05);
+    });
+});
@@ -0,0 +1,276 @@
+// Energy + zero-crossing voice activity detection.
+// Audio is cut into short frames; a frame counts as speech when it is loud enough
+// (above both a fixed floor and the adaptive noise estimate) and not dominated by
+// high-frequency hiss. Segments open on speech and close at the first long-enough pause.
+
+import { AudioRingBuffer } from './ringBuffer';
+
+export interface VadConfig {
+    frameMs: number;
+    // Minimum RMS for a frame to count as speech
+    energyThreshold: number;
+    // Speech must also be this many times louder than the running noise floor
+    noiseFloorRatio: number;
+    // Frames crossing zero more often than this (fraction of samples) are treated as noise
+    maxZeroCrossingRate: number;
+    // Speech running this long without a quiet frame lets the noise floor adapt again, in case
+    // the background got louder (a fan turning on) rather than someone talking on
+    maxFloorFreezeMs: number;
+    // Pause length that closes a segment
+    minSilenceMs: number;
+    minSegmentMs: number;
+    maxSegmentMs: number;
+    // Segments with less detected speech than this are dropped as clicks or bumps
+    minSpeechMs: number;
+    // Audio kept from before speech onset so the first syllable is not clipped
+    preRollMs: number;
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+    frameMs: 30,
+    energyThreshold: 0.008,
+    noiseFloorRatio: 2.5,
+    maxZeroCrossingRate: 0.35,
+    maxFloorFreezeMs: 3000,
+    minSilenceMs: 600,
+    minSegmentMs: 1000,
+    maxSegmentMs: 15000,
+    minSpeechMs: 250,
+    preRollMs: 200,
+};
+
+export type VadCloseReason = 'pause' | 'max-length' | 'flush';
+
+export interface VadSegment {
+    audio: Float32Array;
+    // Absolute sample positions in the capture buffer, [startSample, endSample)
+    startSample: number;
+    endSample: number;
+    speechMs: number;
+    reason: VadCloseReason;
+}
+
+export interface VadStats {
+    isSpeaking: boolean;
+    rms: number;
+    zeroCrossingRate: number;
+    noiseFloor: number;
+    threshold: number;
+    segmentsEmitted: number;
+    segmentsSkipped: number;
+}
+
+interface FrameInfo {
+    rms: number;
+    isSpeech: boolean;
+}
+
+/**
+ * Ring capacity that always holds a full segment plus its pre-roll, with `extraMs`
+ * of headroom for callers that also read audio from before a segment.
+ */
+export function vadBufferCapacity(sampleRate: number, config: Partial<VadConfig> = {}, extraMs = 0): number {
+    const { maxSegmentMs, preRollMs, frameMs } = { ...DEFAULT_VAD_CONFIG, ...config };
+    return Math.ceil(((maxSegmentMs + preRollMs + frameMs * 2 + extraMs) / 1000) * sampleRate);
+}
+
+export class VoiceActivitySegmenter {
+    readonly config: VadConfig;
+    readonly sampleRate: number;
+    // Samples live here; the segmenter only keeps per-frame metadata
+    readonly buffer: AudioRingBuffer;
+    private readonly frameSize: number;
+    private readonly frame: Float32Array;
+
+    // Absolute position up to which frames have been analysed
+    private processed = 0;
+
+    private preRoll: FrameInfo[] = [];
+    private segment: FrameInfo[] = [];
+    private segmentStart = 0;
+    private silenceFrames = 0;
+    // Speech frames in a row, across forced splits
+    private speechRunFrames = 0;
+
+    private noiseFloor: number;
+    private lastRms = 0;
+    private lastZcr = 0;
+    private segmentsEmitted = 0;
+    private segmentsSkipped = 0;
+
+    constructor(sampleRate: number, config: Partial<VadConfig> = {}, buffer?: AudioRingBuffer) {
+        this.config = { ...DEFAULT_VAD_CONFIG, ...config };
+        this.sampleRate = sampleRate;
+        this.frameSize = Math.round((sampleRate * this.config.frameMs) / 1000);
+        this.frame = new Float32Array(this.frameSize);
+        this.buffer = buffer ?? new AudioRingBuffer(vadBufferCapacity(sampleRate, this.config));
+        this.processed = this.buffer.end;
+        this.noiseFloor = this.config.energyThreshold / this.config.noiseFloorRatio;
+    }
+
+    /**
+     * Feeds captured samples in and returns any segments that closed as a result.
+     */
+    push(samples: Float32Array): VadSegment[] {
+        this.buffer.write(samples);
+
+        const closed: VadSegment[] = [];
+        while (this.buffer.end - this.processed >= this.frameSize) {
+            this.buffer.copyTo(this.frame, this.processed);
+            this.processed += this.frameSize;
+
+            const segment = this.processFrame(this.frame);
+            if (segment) closed.push(segment);
+        }
+
+        return closed;
+    }
+
+    /**
+     * Closes whatever is in progress (e.g. when recording stops), including the partial last frame.
+     */
+    flush(): VadSegment | null {
+        const end = this.buffer.end;
+        const hasSegment = this.segment.length > 0;
+        this.processed = end;
+
+        if (!hasSegment) return null;
+        return this.closeSegment(this.segment.length, 'flush', end);
+    }
+
+    /**
+     * Start position of the segment currently being collected, or null during silence.
+     */
+    get openSegmentStart(): number | null {
+        return this.segment.length > 0 ? this.segmentStart : null;
+    }
+
+    getStats(): VadStats {
+        return {
+            isSpeaking: this.segment.length > 0,
+            rms: this.lastRms,
+            zeroCrossingRate: this.lastZcr,
+            noiseFloor: this.noiseFloor,
+            threshold: this.threshold(),
+            segmentsEmitted: this.segmentsEmitted,
+            segmentsSkipped: this.segmentsSkipped,
+        };
+    }
+
+    private threshold(): number {
+        return Math.max(this.config.energyThreshold, this.noiseFloor * this.config.noiseFloorRatio);
+    }
+
+    private msToFrames(ms: number): number {
+        return Math.ceil(ms / this.config.frameMs);
+    }
+
+    private processFrame(samples: Float32Array): VadSegment | null {
+        const frameRms = rms(samples);
+        const zcr = zeroCrossingRate(samples);
+        const isSpeech = frameRms >= this.threshold() && zcr <= this.config.maxZeroCrossingRate;
+
+        this.lastRms = frameRms;
+        this.lastZcr = zcr;
+
+        const frame: FrameInfo = { rms: frameRms, isSpeech };
+
+        if (!isSpeech) {
+            // Track background level slowly so a noisy room raises the bar
+            this.noiseFloor = this.noiseFloor * 0.95 + frameRms * 0.05;
+            this.speechRunFrames = 0;
+        } else if (++this.speechRunFrames > this.msToFrames(this.config.maxFloorFreezeMs)) {
+            // Even steady talk dips to the background between syllables, so creep towards the
+            // quietest frame of the last second: barely moving for speech, catching up with noise
+            this.noiseFloor = this.noiseFloor * 0.99 + this.recentMinimumRms(frameRms) * 0.01;
+        }
+
+        if (this.segment.length === 0) {
+            if (!isSpeech) {
+                this.preRoll.push(frame);
+                if (this.preRoll.length > this.msToFrames(this.config.preRollMs)) this.preRoll.shift();
+                return null;
+            }
+
+            this.segment = [...this.preRoll, frame];
+            this.segmentStart = this.processed - this.segment.length * this.frameSize;
+            this.preRoll = [];
+            this.silenceFrames = 0;
+            return null;
+        }
+
+        this.segment.push(frame);
+        this.silenceFrames = isSpeech ? 0 : this.silenceFrames + 1;
+
+        const segmentFrames = this.segment.length;
+        const pauseReached = this.silenceFrames >= this.msToFrames(this.config.minSilenceMs);
+
+        if (pauseReached && segmentFrames >= this.msToFrames(this.config.minSegmentMs)) {
+            return this.closeSegment(segmentFrames, 'pause');
+        }
+        if (segmentFrames >= this.msToFrames(this.config.maxSegmentMs)) {
+            return this.closeSegment(this.quietestSplitPoint(), 'max-length');
+        }
+        return null;
+    }
+
+    private recentMinimumRms(current: number): number {
+        const recent = this.segment.slice(-this.msToFrames(1000));
+        return recent.reduce((min, frame) => Math.min(min, frame.rms), current);
+    }
+
+    // Prefer cutting an over-long segment at the quietest frame of its last second
+    private quietestSplitPoint(): number {
+        const searchFrames = Math.min(this.msToFrames(1000), this.segment.length - 1);
+        let best = this.segment.length;
+        let bestRms = Infinity;
+        for (let i = this.segment.length - searchFrames; i < this.segment.length; i++) {
+            if (this.segment[i].rms < bestRms) {
+                bestRms = this.segment[i].rms;
+                best = i + 1;
+            }
+        }
+        return best;
+    }
+
+    private closeSegment(frameCount: number, reason: VadCloseReason, end?: number): VadSegment | null {
+        const frames = this.segment.slice(0, frameCount);
+        const startSample = this.segmentStart;
+        const endSample = end ?? startSample + frameCount * this.frameSize;
+
+        // Anything left over after a forced split starts the next segment
+        this.segment = this.segment.slice(frameCount);
+        this.segmentStart = endSample;
+        this.silenceFrames = 0;
+
+        const speechMs = frames.filter(f => f.isSpeech).length * this.config.frameMs;
+        if (speechMs < this.config.minSpeechMs) {
+            this.segmentsSkipped++;
+            return null;
+        }
+
+        this.segmentsEmitted++;
+        return {
+            audio: this.buffer.read(startSample, endSample),
+            startSample,
+            endSample,
+            speechMs,
+            reason,
+        };
+    }
+}
+function rms(samples: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+    }
+    return Math.sqrt(sum / (samples.length || 1));
+}
+
+function zeroCrossingRate(samples: Float32Array): number {
+    let crossings = 0;
+    for (let i = 1; i < samples.length; i++) {
+        if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings++;
+    }
+    return crossings / (samples.length || 1);
+}
@@ -0,0 +1,337 @@
+// User dictionary applied to every transcription result, for names and domain terms Whisper
+// keeps getting wrong. Entries run in list order; each is a find/replace with one of four ways
+// of matching. Phonetic entries catch spellings that merely sound like the term, by comparing
+// simplified Metaphone keys of one to three consecutive words.
+
+export type VocabularyMatch = 'exact' | 'ignore-case' | 'regex' | 'phonetic';
+
+export interface VocabularyEntry {
+    id: string;
+    // Text, pattern or (phonetic) the spoken form to look for; phonetic entries fall back to `replace`
+    find: string;
+    replace: string;
+    match: VocabularyMatch;
+    enabled: boolean;
+}
+
+export type VocabularyFormat = 'json' | 'csv';
+
+export const VOCABULARY_MATCHES: { value: VocabularyMatch; label: string }[] = [
+    { value: 'exact', label: 'Exact' },
+    { value: 'ignore-case', label: 'Ignore case' },
+    { value: 'regex', label: 'Regex' },
+    { value: 'phonetic', label: 'Sounds like' },
+];
+
+const DEFAULT_MATCH: VocabularyMatch = 'ignore-case';
+// Longest run of words a phonetic entry can replace, e.g. "cooper netties" for "Kubernetes"
+const MAX_PHONETIC_WORDS = 3;
+// Shorter keys ("AN" for "Anna") would match too many ordinary words
+const MIN_PHONETIC_KEY = 3;
+// Keys at least this long may differ in one sound
+const FUZZY_PHONETIC_KEY = 6;
+const CSV_COLUMNS = ['find', 'replace', 'match', 'enabled'] as const;
+
+export function createVocabularyEntry(fields: Partial<Omit<VocabularyEntry, 'id'>> = {}): VocabularyEntry {
+    return {
+        id: crypto.randomUUID(),
+        find: fields.find ?? '',
+        replace: fields.replace ?? '',
+        match: fields.match ?? DEFAULT_MATCH,
+        enabled: fields.enabled ?? true,
+    };
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Matches `find` as whole words: not inside a longer word, though "Node.js" still works
+function literalPattern(find: string, flags: string): RegExp {
+    const start = /^[\p{L}\p{N}]/u.test(find) ? '(?<![\\p{L}\\p{N}])' : '';
+    const end = /[\p{L}\p{N}]$/u.test(find) ? '(?![\\p{L}\\p{N}])' : '';
+    return new RegExp(`${start}${escapeRegExp(find)}${end}`, flags);
+}
+
+/**
+ * Why an entry cannot be used, or null if it is fine.
+ */
+export function vocabularyEntryError(entry: Pick<VocabularyEntry, 'find' | 'replace' | 'match'>): string | null {
+    if (entry.match === 'phonetic') {
+        const term = entry.find.trim() || entry.replace.trim();
+        if (!term) return 'Enter the term to listen for';
+        if (phoneticKey(term).length < MIN_PHONETIC_KEY) return 'Too short to match by sound; use an exact entry';
+        return null;
+    }
+    if (!entry.find) return 'Enter the text to find';
+    if (entry.match === 'regex') {
+        try {
+            new RegExp(entry.find, 'gu');
+        } catch (err) {
+            return (err as Error).message;
+        }
+    }
+    return null;
+}
+
+/**
+ * A simplified Metaphone key: consonant sounds only, with common spellings of the same sound
+ * folded together, e.g. "Kubernetes" and "Coobernetties" both give "KBRNTS".
+ */
+export function phoneticKey(text: string): string {
+    let word = text.toLowerCase().normalize('NFD').replace(/[^a-z]/g, '');
+    if (!word) return '';
+
+    word = word
+        .replace(/^(kn|gn|pn|wr|ae)/, (prefix) => prefix[1])
+        .replace(/^x/, 's')
+        .replace(/^wh/, 'w')
+        .replace(/mb$/, 'm');
+
+    const isVowel = (char: string | undefined) => !!char && 'aeiou'.includes(char);
+    let key = '';
+
+    for (let i = 0; i < word.length; i++) {
+        const char = word[i];
+        const next = word[i + 1];
+        const rest = word.slice(i + 1);
+        // Doubled letters sound once
+        if (char === word[i - 1] && char !== 'c') continue;
+
+        let sound = '';
+        switch (char) {
+            case 'a': case 'e': case 'i': case 'o': case 'u':
+                if (i === 0) sound = 'A';
+                break;
+            case 'b': sound = 'B'; break;
+            case 'c':
+                if (rest.startsWith('ia') || next === 'h') sound = 'X';
+                else if (next === 'i' || next === 'e' || next === 'y') sound = 'S';
+                else sound = 'K';
+                break;
+            case 'd':
+                sound = /^g[eiy]/.test(rest) ? 'J' : 'T';
+                break;
+            case 'g':
+                if (next === 'h' && !isVowel(word[i + 2])) sound = '';
+                else if (next === 'e' || next === 'i' || next === 'y') sound = 'J';
+                else sound = 'K';
+                break;
+            case 'h':
+                if (isVowel(next) && !'cgpst'.includes(word[i - 1] ?? '')) sound = 'H';
+                break;
+            case 'k': if (word[i - 1] !== 'c') sound = 'K'; break;
+            case 'p': sound = next === 'h' ? 'F' : 'P'; break;
+            case 'q': sound = 'K'; break;
+            case 's':
+                sound = next === 'h' || /^i[oa]/.test(rest) ? 'X' : 'S';
+                break;
+            case 't':
+                if (/^i[oa]/.test(rest)) sound = 'X';
+                else if (next === 'h') sound = '0';
+                else if (!rest.startsWith('ch')) sound = 'T';
+                break;
+            case 'v': sound = 'F'; break;
+            case 'w': case 'y':
+                if (isVowel(next)) sound = char.toUpperCase();
+                break;
+            case 'x': sound = 'KS'; break;
+            case 'z': sound = 'S'; break;
+            default: sound = char.toUpperCase();
+        }
+        // "ck", "sch" and the like come out as one sound
+        if (sound && !key.endsWith(sound)) key += sound;
+    }
+    return key;
+}
+
+function withinOneEdit(a: string, b: string): boolean {
+    if (a === b) return true;
+    if (Math.abs(a.length - b.length) > 1) return false;
+    let i = 0;
+    while (i < a.length && i < b.length && a[i] === b[i]) i++;
+    return a.slice(i + 1) === b.slice(i + 1) || a.slice(i) === b.slice(i + 1) || a.slice(i + 1) === b.slice(i);
+}
+
+function phoneticRule(term: string, replacement: string): (text: string) => string {
+    const target = phoneticKey(term);
+    const fuzzy = target.length >= FUZZY_PHONETIC_KEY;
+    const normalizedReplacement = replacement.toLowerCase();
+
+    return (text) => {
+        // Words with the whitespace after them, so the text can be put back together unchanged
+        const tokens = text.match(/\S+\s*/g) ?? [];
+        let result = text.match(/^\s*/)?.[0] ?? '';
+
+        for (let i = 0; i < tokens.length; i++) {
+            let matched = 0;
+            for (let count = Math.min(MAX_PHONETIC_WORDS, tokens.length - i); count >= 1 && !matched; count--) {
+                const window = tokens.slice(i, i + count).join('');
+                const key = phoneticKey(window);
+                if (key === target || (fuzzy && withinOneEdit(key, target))) matched = count;
+            }
+            if (!matched) {
+                result += tokens[i];
+                continue;
+            }
+
+            // Keep the punctuation around the words and the whitespace after them
+            const window = tokens.slice(i, i + matched).join('');
+            const words = window.trimEnd();
+            const leading = words.match(/^[^\p{L}\p{N}]*/u)?.[0] ?? '';
+            const trailing = words.match(/[^\p{L}\p{N}]*$/u)?.[0] ?? '';
+            const core = words.slice(leading.length, words.length - trailing.length);
+            result += core.toLowerCase() === normalizedReplacement
+                ? window
+                : `${leading}${replacement}${trailing}${window.slice(words.length)}`;
+            i += matched - 1;
+        }
+        return result;
+    };
+}
+
+function compileEntry(entry: VocabularyEntry): ((text: string) => string) | null {
+    if (!entry.enabled || vocabularyEntryError(entry)) return null;
+
+    switch (entry.match) {
+        case 'exact':
+        case 'ignore-case': {
+            const pattern = literalPattern(entry.find, entry.match === 'exact' ? 'gu' : 'giu');
+            return (text) => text.replace(pattern, () => entry.replace);
+        }
+        case 'regex': {
+            const pattern = new RegExp(entry.find, 'gu');
+            return (text) => text.replace(pattern, entry.replace);
+        }
+        case 'phonetic': {
+            const replacement = entry.replace.trim() || entry.find.trim();
+            return phoneticRule(entry.find.trim() || replacement, replacement);
+        }
+    }
+}
+
+/**
+ * Builds a function that applies the enabled, valid entries in order. Compile once per change
+ * to the list rather than per result.
+ */
+export function compileVocabulary(entries: VocabularyEntry[]): (text: string) => string {
+    const rules = entries.map(compileEntry).filter((rule): rule is (text: string) => string => rule !== null);
+    if (rules.length === 0) return (text) => text;
+    return (text) => rules.reduce((acc, rule) => rule(acc), text);
+}
+
+export function applyVocabulary(text: string, entries: VocabularyEntry[]): string {
+    return compileVocabulary(entries)(text);
+}
+
+function csvField(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) throw new Error('Unterminated quoted field');
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+function parseMatch(value: unknown, line: string): VocabularyMatch {
+    if (value === undefined || value === null || value === '') return DEFAULT_MATCH;
+    const match = VOCABULARY_MATCHES.find(option => option.value === String(value).trim().toLowerCase());
+    if (!match) throw new Error(`${line}: unknown match type "${value}"`);
+    return match.value;
+}
+
+function parseEnabled(value: unknown): boolean {
+    if (typeof value === 'boolean') return value;
+    if (value === undefined || value === null || value === '') return true;
+    return !/^(false|no|0|off)$/i.test(String(value).trim());
+}
+
+export function exportVocabulary(entries: VocabularyEntry[], format: VocabularyFormat): string {
+    if (format === 'json') {
+        return JSON.stringify(entries.map(({ find, replace, match, enabled }) => ({ find, replace, match, enabled })), null, 2);
+    }
+    const rows = entries.map(entry => [entry.find, entry.replace, entry.match, String(entry.enabled)]);
+    return [[...CSV_COLUMNS], ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
+
+/**
+ * Reads entries exported by `exportVocabulary`, or written by hand: a JSON array of
+ * `{ find, replace, match?, enabled? }`, or CSV with those columns (the header row is optional).
+ */
+export function importVocabulary(content: string, format: VocabularyFormat): VocabularyEntry[] {
+    if (format === 'json') {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(content);
+        } catch {
+            throw new Error('The file is not valid JSON');
+        }
+        if (!Array.isArray(parsed)) throw new Error('Expected a JSON array of entries');
+        return parsed.map((item, index) => {
+            const line = `Entry ${index + 1}`;
+            if (!item || typeof item !== 'object' || typeof item.find !== 'string') {
+                throw new Error(`${line}: "find" must be a string`);
+            }
+            return createVocabularyEntry({
+                find: item.find,
+                replace: typeof item.replace === 'string' ? item.replace : '',
+                match: parseMatch(item.match, line),
+                enabled: parseEnabled(item.enabled),
+            });
+        });
+    }
+
+    const rows = parseCsv(content);
+    const header = rows[0]?.map(value => value.trim().toLowerCase());
+    const hasHeader = header?.[0] === 'find';
+    const columns = hasHeader ? header : [...CSV_COLUMNS];
+    const column = (row: string[], name: string) => {
+        const index = columns.indexOf(name);
+        return index >= 0 ? row[index] : undefined;
+    };
+
+    return rows.slice(hasHeader ? 1 : 0).map((row, index) => {
+        const line = `Row ${index + (hasHeader ? 2 : 1)}`;
+        return createVocabularyEntry({
+            find: column(row, 'find') ?? '',
+            replace: column(row, 'replace') ?? '',
+            match: parseMatch(column(row, 'match'), line),
+            enabled: parseEnabled(column(row, 'enabled')),
+        });
+    });
+}
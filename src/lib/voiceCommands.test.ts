@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VOICE_COMMAND_SETTINGS, applyVoiceCommands, applyVoiceCommandsToSegment, resolveVoiceCommands } from './voiceCommands';
+
+const commands = resolveVoiceCommands(DEFAULT_VOICE_COMMAND_SETTINGS);
+
+describe('applyVoiceCommands', () => {
+    it('writes punctuation and line breaks into the editor text', () => {
+        expect(applyVoiceCommands('', 'Hello, comma, world period new paragraph next', commands).text)
+            .toBe('Hello, world.\n\nNext');
+    });
+
+    it('deletes the last sentence and undoes it', () => {
+        expect(applyVoiceCommands('One. Two.', 'scratch that', commands).text).toBe('One.');
+        expect(applyVoiceCommands('One. Two.', 'scratch that undo', commands).text).toBe('One. Two.');
+    });
+});
+
+describe('commands that are also everyday words', () => {
+    it('are left as words in the middle of a sentence', () => {
+        expect(applyVoiceCommands('', 'It rained over a period of time', commands).text).toBe('It rained over a period of time');
+        expect(applyVoiceCommands('', 'Add a dash of salt and a colon cleanse', commands).text).toBe('Add a dash of salt and a colon cleanse');
+        expect(applyVoiceCommands('One.', 'I want to undo the change', commands).text).toBe('One. I want to undo the change');
+    });
+
+    it('run where they end a phrase', () => {
+        expect(applyVoiceCommands('', 'That is all period', commands).text).toBe('That is all.');
+        expect(applyVoiceCommands('', 'Note colon, buy milk period. Next', commands).text).toBe('Note: buy milk. Next');
+        expect(applyVoiceCommands('', 'Yes period new line no', commands).text).toBe('Yes.\nNo');
+        expect(applyVoiceCommands('One.', 'Two. Undo.', commands).text).toBe('One.');
+    });
+
+    it('can be made to run anywhere', () => {
+        const anywhere = resolveVoiceCommands({ enabled: true, overrides: { period: { phraseEndOnly: false } } });
+        expect(applyVoiceCommands('', 'a period of time', anywhere).text).toBe('a. Of time');
+    });
+});
+
+describe('applyVoiceCommandsToSegment', () => {
+    it('writes spoken punctuation like the editor does', () => {
+        expect(applyVoiceCommandsToSegment('Hello, comma, world period, how are you question mark', commands))
+            .toBe('Hello, world. How are you?');
+    });
+
+    it('drops the words of commands that only act on the editor', () => {
+        expect(applyVoiceCommandsToSegment('First point new paragraph second point', commands)).toBe('First point second point');
+        expect(applyVoiceCommandsToSegment('Never mind scratch that undo stop recording', commands)).toBe('Never mind');
+    });
+
+    it('keeps words said after "literal"', () => {
+        expect(applyVoiceCommandsToSegment('Type the word literal comma', commands)).toBe('Type the word comma');
+    });
+});
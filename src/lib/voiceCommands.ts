@@ -0,0 +1,270 @@
+// Spoken commands recognized in dictated text before it reaches the editor.
+// Each committed result is scanned for command phrases ("comma", "new paragraph", "scratch that"...);
+// the words in between are appended as usual and the commands are carried out in order.
+// Saying "literal" before a phrase types the phrase instead. Commands that are also everyday words
+// ("period", "undo") only count where they end a phrase, so "over a period of time" stays as said.
+
+import { capitalize, endsSentence } from './textInsertion';
+
+export type PunctuationSpacing =
+    // Joins the previous word: "," "." "?" ")"
+    | 'left'
+    // Joins the next word: "(" and opening quotes
+    | 'right'
+    // Spaces on both sides: dashes
+    | 'spaced';
+
+export type VoiceCommandAction =
+    | { type: 'punctuation'; mark: string; spacing: PunctuationSpacing; endsSentence?: boolean }
+    | { type: 'newline' }
+    | { type: 'paragraph' }
+    | { type: 'delete-sentence' }
+    | { type: 'undo' }
+    | { type: 'stop-recording' };
+
+export interface VoiceCommand {
+    id: string;
+    label: string;
+    phrases: string[];
+    action: VoiceCommandAction;
+    enabled: boolean;
+    // Only carried out where the phrase ends what was said, is followed by a pause (punctuation
+    // Whisper added) or leads into another command
+    phraseEndOnly: boolean;
+}
+
+export interface VoiceCommandSettings {
+    enabled: boolean;
+    // Per-command changes to the defaults, by id
+    overrides: Record<string, { enabled?: boolean; phrases?: string[]; phraseEndOnly?: boolean }>;
+}
+
+// One dictated change, kept so "undo" can revert it as long as the text has not been edited since
+export interface DictationEdit {
+    before: string;
+    after: string;
+}
+
+export interface VoiceCommandResult {
+    text: string;
+    history: DictationEdit[];
+    stopRecording: boolean;
+    // Ids of the commands carried out, in order
+    applied: string[];
+    // "undo" was said with nothing (unedited) to undo
+    undoFailed: boolean;
+}
+
+export const DEFAULT_VOICE_COMMANDS: VoiceCommand[] = [
+    { id: 'comma', label: 'Comma', phrases: ['comma'], action: { type: 'punctuation', mark: ',', spacing: 'left' }, enabled: true, phraseEndOnly: false },
+    { id: 'period', label: 'Period', phrases: ['period', 'full stop'], action: { type: 'punctuation', mark: '.', spacing: 'left', endsSentence: true }, enabled: true, phraseEndOnly: true },
+    { id: 'question', label: 'Question mark', phrases: ['question mark'], action: { type: 'punctuation', mark: '?', spacing: 'left', endsSentence: true }, enabled: true, phraseEndOnly: false },
+    { id: 'exclamation', label: 'Exclamation mark', phrases: ['exclamation mark', 'exclamation point'], action: { type: 'punctuation', mark: '!', spacing: 'left', endsSentence: true }, enabled: true, phraseEndOnly: false },
+    { id: 'colon', label: 'Colon', phrases: ['colon'], action: { type: 'punctuation', mark: ':', spacing: 'left' }, enabled: true, phraseEndOnly: true },
+    { id: 'semicolon', label: 'Semicolon', phrases: ['semicolon', 'semi colon'], action: { type: 'punctuation', mark: ';', spacing: 'left' }, enabled: true, phraseEndOnly: false },
+    { id: 'dash', label: 'Dash', phrases: ['dash'], action: { type: 'punctuation', mark: '—', spacing: 'spaced' }, enabled: true, phraseEndOnly: true },
+    { id: 'open-quote', label: 'Open quote', phrases: ['open quote', 'begin quote'], action: { type: 'punctuation', mark: '"', spacing: 'right' }, enabled: true, phraseEndOnly: false },
+    { id: 'close-quote', label: 'Close quote', phrases: ['close quote', 'end quote', 'unquote'], action: { type: 'punctuation', mark: '"', spacing: 'left' }, enabled: true, phraseEndOnly: false },
+    { id: 'open-paren', label: 'Open parenthesis', phrases: ['open parenthesis', 'open paren'], action: { type: 'punctuation', mark: '(', spacing: 'right' }, enabled: true, phraseEndOnly: false },
+    { id: 'close-paren', label: 'Close parenthesis', phrases: ['close parenthesis', 'close paren'], action: { type: 'punctuation', mark: ')', spacing: 'left' }, enabled: true, phraseEndOnly: false },
+    { id: 'newline', label: 'New line', phrases: ['new line', 'newline', 'next line'], action: { type: 'newline' }, enabled: true, phraseEndOnly: false },
+    { id: 'paragraph', label: 'New paragraph', phrases: ['new paragraph', 'next paragraph'], action: { type: 'paragraph' }, enabled: true, phraseEndOnly: false },
+    { id: 'delete-sentence', label: 'Delete last sentence', phrases: ['scratch that', 'delete last sentence', 'delete that'], action: { type: 'delete-sentence' }, enabled: true, phraseEndOnly: false },
+    { id: 'undo', label: 'Undo', phrases: ['undo', 'undo that'], action: { type: 'undo' }, enabled: true, phraseEndOnly: true },
+    { id: 'stop-recording', label: 'Stop recording', phrases: ['stop recording', 'stop dictation'], action: { type: 'stop-recording' }, enabled: true, phraseEndOnly: false },
+];
+
+export const DEFAULT_VOICE_COMMAND_SETTINGS: VoiceCommandSettings = {
+    enabled: true,
+    overrides: {},
+};
+
+// How many dictated changes "undo" can walk back through
+const MAX_HISTORY = 50;
+const LITERAL_WORD = 'literal';
+
+/**
+ * The default commands with the user's changes applied.
+ */
+export function resolveVoiceCommands(settings: VoiceCommandSettings): VoiceCommand[] {
+    return DEFAULT_VOICE_COMMANDS.map(command => {
+        const override = settings.overrides[command.id];
+        return {
+            ...command,
+            enabled: override?.enabled ?? command.enabled,
+            phrases: override?.phrases ?? command.phrases,
+            phraseEndOnly: override?.phraseEndOnly ?? command.phraseEndOnly,
+        };
+    });
+}
+
+function normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+function phraseWords(phrase: string): string[] {
+    return phrase.split(/\s+/).map(normalizeWord).filter(Boolean);
+}
+
+// Whisper punctuates what it hears, so a spoken "comma" often arrives as "Hello, comma,"
+const TRAILING_PUNCTUATION = /[,.;:!?]+$/;
+
+/**
+ * Removes the last sentence, keeping a line break that came before it.
+ */
+export function deleteLastSentence(text: string): string {
+    const trimmed = text.replace(/\s+$/, '');
+    // Skip the sentence's own closing punctuation, then cut after the previous boundary
+    const body = trimmed.replace(/[.!?]+["')\]]?$/, '');
+    const boundary = Math.max(body.search(/[.!?]["')\]]?\s[^.!?]*$/), body.lastIndexOf('\n'));
+    if (boundary < 0) return '';
+    if (body[boundary] === '\n') return body.slice(0, boundary + 1);
+    const end = body.slice(boundary).search(/\s/);
+    return body.slice(0, boundary + end);
+}
+
+/**
+ * Appends a dictated result to `current`, carrying out any commands in it. Without
+ * `editorActions`, only punctuation is written; the words of every other command are dropped.
+ */
+export function applyVoiceCommands(
+    current: string,
+    spoken: string,
+    commands: VoiceCommand[],
+    history: DictationEdit[] = [],
+    editorActions = true
+): VoiceCommandResult {
+    const matchers = commands
+        .filter(command => command.enabled)
+        .flatMap(command => command.phrases.map(phrase => ({ command, words: phraseWords(phrase) })))
+        .filter(matcher => matcher.words.length > 0)
+        // Longest first, so "undo that" wins over "undo"
+        .sort((a, b) => b.words.length - a.words.length);
+
+    const words = spoken.split(/\s+/).filter(Boolean);
+    const normalized = words.map(normalizeWord);
+
+    let text = current;
+    const stack = [...history];
+    const applied: string[] = [];
+    let stopRecording = false;
+    let undoFailed = false;
+    // Text at the start of the current run of words and punctuation, which undo treats as one step
+    let stepStart: string | null = null;
+    // Set after an opening mark, so the next word joins it
+    let glueNext = false;
+    // Capitalize the next word after a spoken sentence end or line break
+    let capitalizeNext = false;
+
+    const beginStep = () => {
+        if (stepStart === null) stepStart = text;
+    };
+    const endStep = () => {
+        if (stepStart !== null && stepStart !== text) stack.push({ before: stepStart, after: text });
+        stepStart = null;
+    };
+
+    const appendWord = (word: string) => {
+        beginStep();
+        const value = capitalizeNext ? capitalize(word) : word;
+        if (!text || glueNext || /\n$/.test(text)) {
+            text += value;
+        } else {
+            text = `${text.replace(/[^\S\n]+$/, '')} ${value}`;
+        }
+        glueNext = false;
+        capitalizeNext = false;
+    };
+
+    // The command said at `i`; unless `anywhere`, one that is only a command at the end of a phrase
+    // must be followed by the end of the result, punctuation or another command
+    const matchAt = (i: number, anywhere = false): typeof matchers[number] | undefined => matchers.find(({ command, words: phrase }) =>
+        phrase.every((word, j) => normalized[i + j] === word)
+        && (anywhere || !command.phraseEndOnly || endsPhrase(i + phrase.length))
+    );
+    const endsPhrase = (end: number) =>
+        end >= words.length || TRAILING_PUNCTUATION.test(words[end - 1]) || matchAt(end) !== undefined;
+
+    for (let i = 0; i < words.length; i++) {
+        // "literal comma" types the word "comma"
+        if (normalized[i] === LITERAL_WORD && i + 1 < words.length) {
+            const literal = matchAt(i + 1, true);
+            if (literal) {
+                words.slice(i + 1, i + 1 + literal.words.length).forEach(appendWord);
+                i += literal.words.length;
+                continue;
+            }
+        }
+
+        const match = matchAt(i);
+        if (!match) {
+            appendWord(words[i]);
+            continue;
+        }
+
+        i += match.words.length - 1;
+        const { command } = match;
+        const action = command.action;
+        if (!editorActions && action.type !== 'punctuation') continue;
+        applied.push(command.id);
+
+        switch (action.type) {
+            case 'punctuation': {
+                beginStep();
+                const base = text.replace(/[^\S\n]+$/, '');
+                if (action.spacing === 'left') {
+                    text = base.replace(TRAILING_PUNCTUATION, '') + action.mark;
+                } else if (action.spacing === 'right') {
+                    text = base && !/\n$/.test(base) ? `${base} ${action.mark}` : base + action.mark;
+                    glueNext = true;
+                } else {
+                    text = `${base.replace(TRAILING_PUNCTUATION, '')} ${action.mark}`;
+                }
+                if (action.endsSentence) capitalizeNext = true;
+                break;
+            }
+            case 'newline':
+            case 'paragraph':
+                beginStep();
+                text = text.replace(/[^\S\n]+$/, '') + (action.type === 'newline' ? '\n' : '\n\n');
+                glueNext = false;
+                capitalizeNext = true;
+                break;
+            case 'delete-sentence': {
+                endStep();
+                const before = text;
+                text = deleteLastSentence(text);
+                if (text !== before) stack.push({ before, after: text });
+                capitalizeNext = endsSentence(text);
+                break;
+            }
+            case 'undo': {
+                endStep();
+                const last = stack[stack.length - 1];
+                if (last && last.after === text) {
+                    stack.pop();
+                    text = last.before;
+                } else {
+                    undoFailed = true;
+                }
+                capitalizeNext = endsSentence(text);
+                break;
+            }
+            case 'stop-recording':
+                stopRecording = true;
+                break;
+        }
+    }
+    endStep();
+
+    return { text, history: stack.slice(-MAX_HISTORY), stopRecording, applied, undoFailed };
+}
+
+/**
+ * A transcript segment's text as the editor would show it: spoken punctuation written out and
+ * the other command words left out. Line breaks and edits ("scratch that", "undo") only make
+ * sense in the editor, and a subtitle cue cannot hold a blank line.
+ */
+export function applyVoiceCommandsToSegment(text: string, commands: VoiceCommand[]): string {
+    return applyVoiceCommands('', text, commands, [], false).text;
+}
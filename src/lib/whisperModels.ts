@@ -0,0 +1,112 @@
+// Catalog of the Whisper checkpoints the worker can load.
+// Sizes are the approximate combined encoder + decoder ONNX download, in megabytes.
+
+export type WhisperModelSize = 'tiny' | 'base' | 'small';
+
+export interface WhisperModel {
+    id: string;
+    label: string;
+    size: WhisperModelSize;
+    multilingual: boolean;
+    downloadMB: {
+        quantized: number;
+        full: number;
+    };
+}
+
+export interface WhisperModelConfig {
+    model: string;
+    quantized: boolean;
+}
+
+export const WHISPER_MODELS: WhisperModel[] = [
+    { id: 'Xenova/whisper-tiny.en', label: 'Tiny (English)', size: 'tiny', multilingual: false, downloadMB: { quantized: 41, full: 151 } },
+    { id: 'Xenova/whisper-tiny', label: 'Tiny (Multilingual)', size: 'tiny', multilingual: true, downloadMB: { quantized: 41, full: 151 } },
+    { id: 'Xenova/whisper-base.en', label: 'Base (English)', size: 'base', multilingual: false, downloadMB: { quantized: 77, full: 290 } },
+    { id: 'Xenova/whisper-base', label: 'Base (Multilingual)', size: 'base', multilingual: true, downloadMB: { quantized: 77, full: 290 } },
+    { id: 'Xenova/whisper-small.en', label: 'Small (English)', size: 'small', multilingual: false, downloadMB: { quantized: 249, full: 967 } },
+    { id: 'Xenova/whisper-small', label: 'Small (Multilingual)', size: 'small', multilingual: true, downloadMB: { quantized: 249, full: 967 } },
+];
+
+export const DEFAULT_MODEL_CONFIG: WhisperModelConfig = {
+    model: 'Xenova/whisper-tiny.en',
+    quantized: true,
+};
+
+export function getWhisperModel(id: string): WhisperModel {
+    return WHISPER_MODELS.find(m => m.id === id) ?? WHISPER_MODELS[0];
+}
+
+export function isSameModelConfig(a: WhisperModelConfig, b: WhisperModelConfig): boolean {
+    return a.model === b.model && a.quantized === b.quantized;
+}
+
+export function estimateDownloadMB(config: WhisperModelConfig): number {
+    const model = getWhisperModel(config.model);
+    return config.quantized ? model.downloadMB.quantized : model.downloadMB.full;
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export type WhisperTask = 'transcribe' | 'translate';
+
+export interface TranscriptionOptions {
+    // ISO 639-1 code, or 'auto' to let a multilingual model detect it
+    language: string;
+    task: WhisperTask;
+}
+
+export const DEFAULT_TRANSCRIPTION_OPTIONS: TranscriptionOptions = {
+    language: 'auto',
+    task: 'transcribe',
+};
+
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+// The subset of Whisper's languages offered in the UI, keyed by the code its tokenizer uses
+export const WHISPER_LANGUAGES: { code: string; name: string }[] = [
+    { code: 'en', name: 'English' },
+    { code: 'es', name: 'Spanish' },
+    { code: 'fr', name: 'French' },
+    { code: 'de', name: 'German' },
+    { code: 'it', name: 'Italian' },
+    { code: 'pt', name: 'Portuguese' },
+    { code: 'nl', name: 'Dutch' },
+    { code: 'sv', name: 'Swedish' },
+    { code: 'da', name: 'Danish' },
+    { code: 'no', name: 'Norwegian' },
+    { code: 'fi', name: 'Finnish' },
+    { code: 'pl', name: 'Polish' },
+    { code: 'cs', name: 'Czech' },
+    { code: 'ro', name: 'Romanian' },
+    { code: 'hu', name: 'Hungarian' },
+    { code: 'el', name: 'Greek' },
+    { code: 'tr', name: 'Turkish' },
+    { code: 'ru', name: 'Russian' },
+    { code: 'uk', name: 'Ukrainian' },
+    { code: 'ar', name: 'Arabic' },
+    { code: 'he', name: 'Hebrew' },
+    { code: 'fa', name: 'Persian' },
+    { code: 'hi', name: 'Hindi' },
+    { code: 'bn', name: 'Bengali' },
+    { code: 'ur', name: 'Urdu' },
+    { code: 'ta', name: 'Tamil' },
+    { code: 'th', name: 'Thai' },
+    { code: 'vi', name: 'Vietnamese' },
+    { code: 'id', name: 'Indonesian' },
+    { code: 'ms', name: 'Malay' },
+    { code: 'tl', name: 'Tagalog' },
+    { code: 'zh', name: 'Chinese' },
+    { code: 'ja', name: 'Japanese' },
+    { code: 'ko', name: 'Korean' },
+    { code: 'sw', name: 'Swahili' },
+];
+
+export function getLanguageName(code: string | null | undefined): string {
+    if (!code) return 'Unknown';
+    return WHISPER_LANGUAGES.find(l => l.code === code)?.name ?? code.toUpperCase();
+}
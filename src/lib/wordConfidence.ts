@@ -0,0 +1,103 @@
+// Per-word confidence: the worker records the probability of every token Whisper picked, along
+// with the runners-up it weighed, and this groups them into words. A word is only as sure as its
+// least likely token; punctuation is left out, since Whisper is often unsure about commas for
+// words it heard perfectly well.
+
+import { WordConfidence } from './workerProtocol';
+import { TimedWord } from './transcriptStitching';
+
+// Words below this probability are highlighted for review
+export const LOW_CONFIDENCE = 0.5;
+
+// Alternatives offered per word, and how likely a runner-up has to be to make the list
+const MAX_ALTERNATIVES = 4;
+const MIN_ALTERNATIVE_PROBABILITY = 0.02;
+
+// How far ahead to look for a word's score before giving up on it; results that were
+// filtered or merged across Whisper's 30s windows have scored words the text lacks
+const ALIGNMENT_LOOKAHEAD = 8;
+
+export interface TokenCandidate {
+    id: number;
+    logprob: number;
+}
+
+// A token Whisper emitted, and the candidates it chose between (best first, itself included)
+export interface ScoredToken {
+    id: number;
+    logprob: number;
+    candidates: TokenCandidate[];
+}
+
+function isPunctuation(text: string): boolean {
+    return !/[\p{L}\p{N}]/u.test(text);
+}
+
+function normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Groups text tokens into words (a word starts at a token with a leading space) and scores each
+ * one. Alternatives swap the word's least likely token for the candidates ranked after it.
+ */
+export function scoreWords(tokens: ScoredToken[], decode: (ids: number[]) => string): WordConfidence[] {
+    const groups: ScoredToken[][] = [];
+    for (const token of tokens) {
+        const piece = decode([token.id]);
+        // Punctuation sticks to the word before it
+        if (groups.length === 0 || (piece.startsWith(' ') && !isPunctuation(piece))) {
+            groups.push([token]);
+        } else {
+            groups[groups.length - 1].push(token);
+        }
+    }
+
+    return groups.flatMap(group => {
+        const text = decode(group.map(token => token.id)).trim();
+        if (!text) return [];
+
+        const scored = group.filter(token => !isPunctuation(decode([token.id])));
+        const weakest = (scored.length > 0 ? scored : group).reduce((a, b) => (b.logprob < a.logprob ? b : a));
+        const index = group.indexOf(weakest);
+        const leadingSpace = decode([weakest.id]).startsWith(' ');
+
+        const alternatives: string[] = [];
+        for (const candidate of weakest.candidates) {
+            if (alternatives.length >= MAX_ALTERNATIVES) break;
+            if (candidate.id === weakest.id || Math.exp(candidate.logprob) < MIN_ALTERNATIVE_PROBABILITY) continue;
+            const piece = decode([candidate.id]);
+            // Keep the word boundaries, and skip bytes of a character split across tokens
+            if (!piece.trim() || piece.startsWith(' ') !== leadingSpace || piece.includes('�') || isPunctuation(piece)) continue;
+            const ids = group.map((token, i) => (i === index ? candidate.id : token.id));
+            const alternative = decode(ids).trim();
+            if (alternative && alternative !== text && !alternatives.includes(alternative)) alternatives.push(alternative);
+        }
+
+        return [{ text, confidence: Math.exp(weakest.logprob), alternatives }];
+    });
+}
+
+/**
+ * Copies scores onto the words of a committed result, matching them up in order by text.
+ * Words without a match are left unscored.
+ */
+export function attachConfidence(words: TimedWord[], scored: WordConfidence[] | undefined): TimedWord[] {
+    if (!scored || scored.length === 0) return words;
+
+    let next = 0;
+    return words.map(word => {
+        const key = normalizeWord(word.text);
+        const end = Math.min(scored.length, next + ALIGNMENT_LOOKAHEAD);
+        for (let i = next; i < end; i++) {
+            if (normalizeWord(scored[i].text) !== key) continue;
+            next = i + 1;
+            return { ...word, confidence: scored[i].confidence, alternatives: scored[i].alternatives };
+        }
+        return word;
+    });
+}
+
+export function isLowConfidence(word: { confidence?: number }): boolean {
+    return word.confidence !== undefined && word.confidence < LOW_CONFIDENCE;
+}
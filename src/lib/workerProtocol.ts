@@ -0,0 +1,109 @@
+// Message types exchanged between useTranscribe and worker.ts.
+// Every transcription is a job with a unique id; final jobs also carry a sequence
+// number so the hook can commit results in the order the audio was captured.
+
+import { WhisperModelConfig, WhisperTask } from './whisperModels';
+
+export type JobKind = 'final' | 'partial';
+export type JobSource = 'mic' | 'file';
+
+// Text the decoder continues from: the user's initial prompt, then the preceding transcript
+export interface DecoderPrompt {
+    initial: string;
+    previous: string;
+}
+
+export interface TranscribeJob {
+    id: string;
+    kind: JobKind;
+    // Commit order for final jobs; a partial carries the seq its segment is expected to commit under
+    seq: number;
+    source: JobSource;
+    audio: Float32Array;
+    language: string | null;
+    task: WhisperTask;
+    // Capture-buffer position of the segment, for matching partials to their final
+    segmentStart?: number;
+    // Runs this job on a different model than the configured one (re-transcribing a range)
+    model?: WhisperModelConfig;
+    prompt?: DecoderPrompt;
+}
+
+export interface WhisperChunk {
+    text: string;
+    timestamp: [number, number | null];
+    // The segment's words with the times Whisper aligned them to; absent when the model cannot align words
+    words?: WordTimestamp[];
+}
+
+// Seconds from the start of the window
+export interface WordTimestamp {
+    text: string;
+    start: number;
+    end: number;
+}
+
+// How sure Whisper was of a word (0 to 1), and what else it might have been
+export interface WordConfidence {
+    text: string;
+    confidence: number;
+    alternatives: string[];
+}
+
+// Peak and mean absolute amplitude
+export interface AudioLevel {
+    peak: number;
+    average: number;
+}
+
+export interface TranscriptionResult {
+    text: string;
+    chunks?: WhisperChunk[];
+    // Seconds of audio decoded; the last chunk's end timestamp may be null
+    duration: number;
+    // Of the audio as the worker received it, i.e. after normalization
+    level?: AudioLevel;
+    // Every word decoded, in order; windows merged by the pipeline may list some twice
+    words?: WordConfidence[];
+    language: string | null;
+    task: WhisperTask;
+}
+
+export interface DownloadProgress {
+    status: string;
+    name?: string;
+    file?: string;
+    loaded?: number;
+    total?: number;
+    progress?: number;
+    // Summed over every file of the model being loaded
+    totalLoaded: number;
+    totalBytes: number;
+}
+
+export type WorkerRequest =
+    | { type: 'configure'; config: WhisperModelConfig }
+    | { type: 'transcribe'; job: TranscribeJob }
+    // Drops the listed jobs, or every job when `ids` is omitted
+    | { type: 'cancel'; ids?: string[] }
+    | { type: 'abort-download' };
+
+interface JobMessage {
+    id: string;
+    kind: JobKind;
+    seq: number;
+    segmentStart?: number;
+}
+
+export type WorkerResponse =
+    | { type: 'download'; data: DownloadProgress }
+    | { type: 'ready'; data: WhisperModelConfig }
+    | { type: 'download-aborted'; data: WhisperModelConfig }
+    | { type: 'cancelled'; ids: string[] }
+    | ({ type: 'partial'; data: TranscriptionResult } & JobMessage)
+    | ({ type: 'complete'; data: TranscriptionResult } & JobMessage)
+    | ({ type: 'error'; data: string } & Partial<JobMessage>);
+
+export function createJobId(): string {
+    return crypto.randomUUID();
+}
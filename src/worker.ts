@@ -1,85 +1,506 @@
 
 import { pipeline, env } from '@xenova/transformers';
+import { DEFAULT_MODEL_CONFIG, WhisperModelConfig, WhisperTask, getWhisperModel, isSameModelConfig } from './lib/whisperModels';
+import { WHISPER_SAMPLE_RATE } from './lib/audioProcessing';
+import { DecoderPrompt, DownloadProgress, TranscribeJob, TranscriptionResult, WorkerRequest, WorkerResponse } from './lib/workerProtocol';
+import { ScoredToken, TokenCandidate, scoreWords } from './lib/wordConfidence';
+import { attachWordTimestamps } from './lib/transcriptStitching';
 
 // Skip local checks for browser environment to avoid 404s on local file access for models
 env.allowLocalModels = false;
 env.useBrowserCache = true;
 
-class PipelineSingleton {
-    static instance: any = null;
-    static model_id = 'Xenova/whisper-tiny.en';
+// transformers.js downloads model files through the global fetch; routing every request through
+// one controller lets an in-progress download be aborted. A fresh one replaces it on every abort.
+let downloadController = new AbortController();
+const nativeFetch = self.fetch.bind(self);
+self.fetch = (input: RequestInfo | URL, init?: RequestInit) =>
+    nativeFetch(input, { ...init, signal: downloadController.signal });
+
+// A single file's progress as transformers.js reports it, before totals are added
+type DownloadEvent = Omit<DownloadProgress, 'totalLoaded' | 'totalBytes'>;
+
+type ProgressCallback = (data: DownloadEvent) => void;
+
+// One loaded pipeline and the model it holds; asking it for a different model disposes the old one first.
+// Callers only swap models between jobs, so nothing is disposed mid-inference.
+class PipelineSlot {
+    private instance: Promise<any> | null = null;
+    config: WhisperModelConfig | null = null;
+
+    async get(config: WhisperModelConfig, progress_callback: ProgressCallback | null = null) {
+        if (this.instance !== null && !isSameModelConfig(config, this.config)) {
+            console.log(`[Worker] Switching model ${this.config.model} -> ${config.model}, disposing old pipeline`);
+            await this.dispose();
+        }
 
-    static async getInstance(progress_callback: Function | null = null) {
         if (this.instance === null) {
-            this.instance = await pipeline('automatic-speech-recognition', this.model_id, {
-                quantized: true,
+            this.config = config;
+            const loading = pipeline('automatic-speech-recognition', config.model, {
+                quantized: config.quantized,
                 progress_callback,
             });
+            this.instance = loading;
+            // Let a failed load be retried instead of caching the rejection
+            loading.catch(() => {
+                if (this.instance === loading) this.instance = null;
+            });
         }
         return this.instance;
     }
-}
 
-// Listen for messages from the main thread
-self.addEventListener('message', async (event: MessageEvent) => {
-    const { type, audio, language } = event.data;
-    console.log('[Worker] Received message:', type);
+    // Whether `config` is loaded, or loading
+    holds(config: WhisperModelConfig): boolean {
+        return this.instance !== null && isSameModelConfig(config, this.config);
+    }
 
-    if (type === 'configure') {
+    async dispose() {
+        const previous = this.instance;
+        this.instance = null;
+        this.config = null;
+        if (previous === null) return;
         try {
-            console.log('[Worker] Loading model pipeline...');
-            // Pre-load the model
-            await PipelineSingleton.getInstance((data: any) => {
-                self.postMessage({
-                    type: 'download',
-                    data
-                });
+            await (await previous).dispose();
+        } catch (error) {
+            console.warn('[Worker] Failed to dispose previous pipeline:', error);
+        }
+    }
+}
+
+// The model the main thread configured, which jobs run on by default. Only set once it has
+// loaded, so an aborted or failed switch does not leave jobs to download it after all.
+let selectedModel: WhisperModelConfig = DEFAULT_MODEL_CONFIG;
+const selectedPipeline = new PipelineSlot();
+// A job that names another model (re-transcribing a range) gets its own pipeline, so switching
+// to it and back does not reload the configured one
+const overridePipeline = new PipelineSlot();
+
+function pipelineFor(model: WhisperModelConfig) {
+    if (!isSameModelConfig(model, selectedModel)) return overridePipeline.get(model, reportDownload);
+    // The switch away from it disposed the pipeline, then failed or was aborted
+    if (!selectedPipeline.holds(model)) return Promise.reject(new Error('No model is loaded'));
+    return selectedPipeline.get(model, reportDownload);
+}
+
+// Byte counts per model file, so the UI can show one overall download figure
+const downloadProgress = new Map<string, { loaded: number; total: number }>();
+
+function post(message: WorkerResponse) {
+    self.postMessage(message);
+}
+
+function reportDownload(data: DownloadEvent) {
+    if (data.status === 'progress' && data.file) {
+        downloadProgress.set(data.file, { loaded: data.loaded ?? 0, total: data.total ?? 0 });
+    }
+
+    let loaded = 0;
+    let total = 0;
+    downloadProgress.forEach(file => {
+        loaded += file.loaded;
+        total += file.total;
+    });
+
+    post({
+        type: 'download',
+        data: { ...data, totalLoaded: loaded, totalBytes: total }
+    });
+}
+
+// Whisper emits <|sot|><|xx|><|task|>..., so the language is the first "<|xx|>" special token
+function detectLanguageToken(tokenizer: { decode: (ids: number[]) => string }, tokens: number[]): string | null {
+    for (const id of tokens.slice(0, 4)) {
+        const match = /^<\|([a-z]{2,3})\|>$/.exec(tokenizer.decode([id]));
+        if (match) return match[1];
+    }
+    return null;
+}
+
+// Models whose word alignment failed, because they were exported without cross-attentions
+const unalignedModels = new Set<string>();
+
+// A decoded window as the pipeline hands it to `chunk_callback`
+interface DecodedChunk {
+    tokens: number[];
+    // Per token, with word-level timestamps
+    token_timestamps?: number[];
+    stride: number[];
+}
+
+// Whisper's decoder holds 448 positions; as in OpenAI's implementation, a prompt gets at most half
+const MAX_PROMPT_TOKENS = 223;
+
+// Candidates kept per decoding step, for a word's alternatives
+const CANDIDATES_PER_STEP = 5;
+
+// The parts of the transformers.js Whisper pipeline that prompting and scoring reach into
+interface WhisperTokenizer {
+    encode: (text: string, pair: null, options: { add_special_tokens: boolean }) => number[];
+    decode: (ids: number[]) => string;
+    model: { convert_tokens_to_ids: (tokens: string[]) => number[] };
+}
+
+interface GenerationConfig {
+    forced_decoder_ids?: [number, number][];
+}
+
+// Runs on the tokens so far and the logits for the next one, changing the logits in place
+type LogitsProcessor = (inputIds: number[], logits: { data: Float32Array }) => void;
+
+interface WhisperPipeline {
+    tokenizer: WhisperTokenizer;
+    model: {
+        generate: (inputs: unknown, config: GenerationConfig, ...rest: unknown[]) => Promise<unknown>;
+        _get_logits_processor: (...args: unknown[]) => { push: (processor: LogitsProcessor) => void };
+    };
+}
+
+// Tokenizes the prompt, keeping the initial prompt whole where possible and the end of the previous text
+function encodePrompt(tokenizer: WhisperTokenizer, prompt: DecoderPrompt): number[] {
+    const encode = (text: string): number[] => (text ? tokenizer.encode(` ${text}`, null, { add_special_tokens: false }) : []);
+    const initial = encode(prompt.initial).slice(0, MAX_PROMPT_TOKENS);
+    const previous = encode(prompt.previous);
+    const room = MAX_PROMPT_TOKENS - initial.length;
+    return [...initial, ...(room > 0 ? previous.slice(-room) : [])];
+}
+
+// transformers.js 2.x has no prompt option for Whisper, so prompted decoding is set up around the
+// pipeline: the decoder starts from <|startofprev|> prompt <|startoftranscript|>, and the forced
+// language/task tokens move past the prompt. The timestamp processor works out where the text
+// starts from the number of forced tokens, so the prompt positions are listed as forced too.
+// Returns a function that restores the model.
+function applyPrompt(transcriber: WhisperPipeline, promptIds: number[]): () => void {
+    const model = transcriber.model;
+    const generate = model.generate;
+    const [startOfPrev, startOfTranscript] = transcriber.tokenizer.model.convert_tokens_to_ids(['<|startofprev|>', '<|startoftranscript|>']);
+    const prefix = [startOfPrev, ...promptIds, startOfTranscript];
+    const shift = prefix.length - 1;
+
+    model.generate = (inputs, config, ...rest) => {
+        const forced = (config.forced_decoder_ids ?? []).map(([position, id]) => [position + shift, id]);
+        return generate.call(model, inputs, {
+            ...config,
+            decoder_input_ids: prefix,
+            forced_decoder_ids: [...prefix.slice(1).map((id, i) => [i + 1, id]), ...forced],
+        }, ...rest);
+    };
+    return () => {
+        model.generate = generate;
+    };
+}
+
+// The most likely tokens for one step, best first, with their log-probabilities
+function topCandidates(logits: Float32Array, count: number): TokenCandidate[] {
+    let max = -Infinity;
+    for (let id = 0; id < logits.length; id++) {
+        if (logits[id] > max) max = logits[id];
+    }
+    let sum = 0;
+    for (let id = 0; id < logits.length; id++) {
+        sum += Math.exp(logits[id] - max);
+    }
+    const logSum = max + Math.log(sum);
+
+    const top: { id: number; logit: number }[] = [];
+    for (let id = 0; id < logits.length; id++) {
+        const logit = logits[id];
+        if (top.length === count && logit <= top[count - 1].logit) continue;
+        let at = top.length;
+        while (at > 0 && top[at - 1].logit < logit) at--;
+        top.splice(at, 0, { id, logit });
+        if (top.length > count) top.pop();
+    }
+    return top.map(({ id, logit }) => ({ id, logprob: logit - logSum }));
+}
+
+// transformers.js 2.x does not return scores from greedy decoding, so a last logits processor
+// records the candidates at each step, by position in the decoder sequence. It runs after
+// Whisper's own processors (timestamp rules, suppressed tokens), so its first candidate is the
+// token that gets picked. Returns a function that restores the model.
+function recordCandidates(transcriber: WhisperPipeline, steps: TokenCandidate[][]): () => void {
+    const model = transcriber.model;
+    const getLogitsProcessor = model._get_logits_processor;
+
+    model._get_logits_processor = (...args) => {
+        const processors = getLogitsProcessor.apply(model, args);
+        processors.push((inputIds, logits) => {
+            steps[inputIds.length] = topCandidates(logits.data, CANDIDATES_PER_STEP);
+        });
+        return processors;
+    };
+    return () => {
+        model._get_logits_processor = getLogitsProcessor;
+    };
+}
+
+async function transcribe(
+    audio: Float32Array,
+    language: string | null,
+    task: WhisperTask,
+    model: WhisperModelConfig = selectedModel,
+    prompt?: DecoderPrompt
+): Promise<TranscriptionResult> {
+    console.log(`[Worker] Starting transcription via pipeline... Audio length: ${audio.length}`);
+
+    // Log audio stats to ensure it's not silent
+    let max = 0;
+    let sum = 0;
+    for (let i = 0; i < audio.length; i++) {
+        const val = Math.abs(audio[i]);
+        if (val > max) max = val;
+        sum += val;
+    }
+    const avg = sum / audio.length;
+    console.log(`[Worker] Audio Input Stats: Max=${max.toFixed(4)}, Avg=${avg.toFixed(6)}`);
+
+    const transcriber = await pipelineFor(model);
+    const multilingual = getWhisperModel(model.model).multilingual;
+
+    // English-only checkpoints have no language or translate tokens worth forcing
+    const requestedTask: WhisperTask = multilingual && task === 'translate' ? 'translate' : 'transcribe';
+    const requestedLanguage: string | null = multilingual ? language ?? null : null;
+
+    let detectedLanguage: string | null = multilingual ? requestedLanguage : 'en';
+
+    const promptIds = prompt ? encodePrompt(transcriber.tokenizer, prompt) : [];
+    const restoreModel = promptIds.length > 0 ? applyPrompt(transcriber, promptIds) : null;
+    if (restoreModel) console.log(`[Worker] Conditioning on a ${promptIds.length}-token prompt`);
+    const [startOfTranscript, endOfText] = transcriber.tokenizer.model.convert_tokens_to_ids(['<|startoftranscript|>', '<|endoftext|>']);
+
+    // Candidates for the window being decoded, and the text tokens of every window so far
+    const steps: TokenCandidate[][] = [];
+    const scoredTokens: ScoredToken[] = [];
+    const restoreScoring = recordCandidates(transcriber, steps);
+
+    // Word times come from aligning the decoder's cross-attention with the audio, which needs the
+    // model's alignment heads
+    let wordTimestamps = !!transcriber.model.generation_config?.alignment_heads && !unalignedModels.has(model.model);
+    const decoded: DecodedChunk[] = [];
+
+    const run = (returnTimestamps: true | 'word') => transcriber(audio, {
+        language: requestedLanguage,
+        task: requestedTask,
+        return_timestamps: returnTimestamps,
+        chunk_length_s: 30,
+        chunk_callback: (chunk: DecodedChunk) => {
+            // Every special and timestamp token sorts after <|endoftext|>
+            const textStart = chunk.tokens.indexOf(startOfTranscript);
+            chunk.tokens.forEach((id, position) => {
+                const candidates = steps[position];
+                const picked = candidates?.find(candidate => candidate.id === id);
+                if (position > textStart && id < endOfText && picked) {
+                    scoredTokens.push({ id, logprob: picked.logprob, candidates });
+                }
             });
-            console.log('[Worker] Model loaded successfully');
-            self.postMessage({ type: 'ready' });
+            steps.length = 0;
+
+            // Drop the prompt before the pipeline decodes the tokens into text
+            if (restoreModel) {
+                const start = Math.max(0, textStart);
+                chunk.tokens = chunk.tokens.slice(start);
+                chunk.token_timestamps = chunk.token_timestamps?.slice(start);
+            }
+            decoded.push(chunk);
+            // The pipeline drops the language token when merging chunks, so read it off the raw tokens
+            if (!multilingual || requestedLanguage) return;
+            const found = detectLanguageToken(transcriber.tokenizer, chunk.tokens);
+            if (found) detectedLanguage = found;
+        },
+    });
+
+    let output;
+    try {
+        try {
+            output = await run(wordTimestamps ? 'word' : true);
         } catch (error) {
-            console.error('[Worker] Error loading model:', error);
-            self.postMessage({ type: 'error', data: (error as Error).message });
+            // A checkpoint without cross-attention outputs only fails once it has decoded
+            if (!wordTimestamps || !/cross attentions|alignment_heads/.test(String(error))) throw error;
+            console.warn(`[Worker] ${model.model} cannot align words, using segment timestamps:`, error);
+            unalignedModels.add(model.model);
+            wordTimestamps = false;
+            steps.length = 0;
+            scoredTokens.length = 0;
+            decoded.length = 0;
+            output = await run(true);
         }
-    } else if (type === 'transcribe') {
-        if (!audio) {
-            console.error('[Worker] No audio data provided');
-            self.postMessage({ type: 'error', data: 'No audio data provided' });
+    } finally {
+        restoreModel?.();
+        restoreScoring();
+    }
+
+    // The word-level output lists words only, so the segments are decoded from the same tokens
+    let chunks = output.chunks;
+    if (wordTimestamps) {
+        const timePrecision = transcriber.processor.feature_extractor.config.chunk_length / transcriber.model.config.max_source_positions;
+        const [, segments] = transcriber.tokenizer._decode_asr(decoded, { time_precision: timePrecision, return_timestamps: true });
+        chunks = attachWordTimestamps(segments.chunks ?? [], output.chunks ?? []);
+    }
+
+    console.log('[Worker] Transcription output:', output, 'language:', detectedLanguage);
+    return {
+        text: output.text,
+        chunks,
+        duration: audio.length / WHISPER_SAMPLE_RATE,
+        level: { peak: max, average: avg },
+        words: scoreWords(scoredTokens, ids => transcriber.tokenizer.decode(ids)),
+        language: detectedLanguage,
+        task: requestedTask,
+    };
+}
+
+// ONNX sessions cannot run two inferences at once, so jobs run one at a time from here.
+// Final jobs run in arrival order; partials collapse into one slot, since only the newest
+// snapshot of a growing segment is worth decoding, and only run when no final is waiting.
+// A model switch waits in the queue too, after the finals queued before it, so the pipeline
+// is never disposed under a running job.
+const finalJobs: TranscribeJob[] = [];
+let pendingPartial: TranscribeJob | null = null;
+let pendingConfigure: { config: WhisperModelConfig; controller: AbortController } | null = null;
+let running = false;
+let currentJob: TranscribeJob | null = null;
+// A running inference cannot be interrupted, so a cancelled running job just has its result dropped
+const discardedJobs = new Set<string>();
+
+function enqueue(job: TranscribeJob) {
+    if (job.kind === 'partial') {
+        pendingPartial = job;
+    } else {
+        finalJobs.push(job);
+    }
+    void runQueue();
+}
+
+function enqueueConfigure(config: WhisperModelConfig) {
+    // Only the newest choice matters; one still waiting is simply replaced
+    pendingConfigure = { config, controller: downloadController };
+    void runQueue();
+}
+
+async function runQueue() {
+    if (running) return;
+    running = true;
+
+    while (finalJobs.length > 0 || pendingConfigure || pendingPartial) {
+        if (finalJobs.length === 0 && pendingConfigure) {
+            const { config, controller } = pendingConfigure;
+            pendingConfigure = null;
+            await configure(config, controller);
+            continue;
+        }
+
+        let job = finalJobs.shift();
+        if (!job) {
+            job = pendingPartial!;
+            pendingPartial = null;
+        }
+        currentJob = job;
+        await runJob(job);
+        currentJob = null;
+
+        // Keep an override model loaded only while queued jobs still need it
+        const override = overridePipeline.config;
+        if (override && !finalJobs.some(queued => queued.model && isSameModelConfig(queued.model, override))) {
+            await overridePipeline.dispose();
+        }
+    }
+
+    running = false;
+}
+
+async function configure(modelConfig: WhisperModelConfig, controller: AbortController) {
+    if (controller.signal.aborted) {
+        console.log('[Worker] Model download aborted before it started');
+        post({ type: 'download-aborted', data: modelConfig });
+        return;
+    }
+    try {
+        console.log(`[Worker] Loading model pipeline ${modelConfig.model} (quantized: ${modelConfig.quantized})...`);
+        downloadProgress.clear();
+        // Pre-load the model
+        await selectedPipeline.get(modelConfig, reportDownload);
+        selectedModel = modelConfig;
+        console.log('[Worker] Model loaded successfully');
+        post({ type: 'ready', data: modelConfig });
+    } catch (error) {
+        if (controller.signal.aborted) {
+            console.log('[Worker] Model download aborted');
+            post({ type: 'download-aborted', data: modelConfig });
             return;
         }
+        console.error('[Worker] Error loading model:', error);
+        post({ type: 'error', data: (error as Error).message });
+    }
+}
 
-        try {
-            console.log(`[Worker] Starting transcription via pipeline... Audio length: ${audio.length}`);
-
-            // Log audio stats to ensure it's not silent
-            let max = 0;
-            let sum = 0;
-            for (let i = 0; i < audio.length; i++) {
-                const val = Math.abs(audio[i]);
-                if (val > max) max = val;
-                sum += val;
-            }
-            const avg = sum / audio.length;
-            console.log(`[Worker] Audio Input Stats: Max=${max.toFixed(4)}, Avg=${avg.toFixed(6)}`);
+function cancelJobs(ids?: string[]) {
+    const matches = (job: TranscribeJob) => !ids || ids.includes(job.id);
+    const cancelled: string[] = [];
 
-            const transcriber = await PipelineSingleton.getInstance();
+    for (let i = finalJobs.length - 1; i >= 0; i--) {
+        if (matches(finalJobs[i])) {
+            cancelled.push(finalJobs[i].id);
+            finalJobs.splice(i, 1);
+        }
+    }
+    if (pendingPartial && matches(pendingPartial)) {
+        cancelled.push(pendingPartial.id);
+        pendingPartial = null;
+    }
+    if (currentJob && matches(currentJob)) {
+        cancelled.push(currentJob.id);
+        discardedJobs.add(currentJob.id);
+    }
 
-            const output = await transcriber(audio, {
-                // language: 'english', // Not needed for en-only model
-                task: 'transcribe',
-                return_timestamps: true,
-                chunk_length_s: 30,
-            });
+    console.log(`[Worker] Cancelled ${cancelled.length} job(s)`);
+    post({ type: 'cancelled', ids: cancelled });
+}
 
-            console.log('[Worker] Transcription output:', output);
+async function runJob(job: TranscribeJob) {
+    const { id, kind, seq, segmentStart } = job;
+    try {
+        const data = await transcribe(job.audio, job.language, job.task, job.model, job.prompt);
+        if (discardedJobs.delete(id)) return;
+        if (kind === 'partial') {
+            post({ type: 'partial', id, kind, seq, segmentStart, data });
+        } else {
+            post({ type: 'complete', id, kind, seq, segmentStart, data });
+        }
+    } catch (error) {
+        if (discardedJobs.delete(id)) return;
+        if (kind === 'partial') {
+            // A failed interim guess is not worth surfacing; the final pass will report real errors
+            console.warn('[Worker] Partial transcription failed:', error);
+            return;
+        }
+        console.error('[Worker] Transcription error:', error);
+        post({ type: 'error', id, kind, seq, segmentStart, data: (error as Error).message });
+    }
+}
 
-            self.postMessage({
-                type: 'complete',
-                data: output
-            });
-        } catch (error) {
-            console.error('[Worker] Transcription error:', error);
-            self.postMessage({ type: 'error', data: (error as Error).message });
+// Listen for messages from the main thread
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+
+    if (request.type === 'configure') {
+        console.log('[Worker] Received message: configure');
+        enqueueConfigure(request.config ?? DEFAULT_MODEL_CONFIG);
+    } else if (request.type === 'abort-download') {
+        console.log('[Worker] Received message: abort-download');
+        downloadController.abort();
+        downloadController = new AbortController();
+    } else if (request.type === 'cancel') {
+        console.log('[Worker] Received message: cancel');
+        cancelJobs(request.ids);
+    } else if (request.type === 'transcribe') {
+        const { job } = request;
+        console.log(`[Worker] Received message: transcribe ${job.kind} #${job.seq} (${job.id})`);
+
+        if (!job.audio) {
+            console.error('[Worker] No audio data provided');
+            post({ type: 'error', id: job.id, kind: job.kind, seq: job.seq, data: 'No audio data provided' });
+            return;
         }
+
+        enqueue(job);
     }
 });